@@ -11,9 +11,12 @@ const config: Config = {
   coverageProvider: 'v8',
   testEnvironment: 'jsdom',
   setupFilesAfterEnv: ['<rootDir>/jest.setup.ts'],
+  // The socket server has its own Jest setup (`npm run server:test`)
+  testPathIgnorePatterns: ['<rootDir>/node_modules/', '<rootDir>/server/'],
   // Handle module aliases (this is the important part for @/ imports)
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
+    '^@shared/(.*)$': '<rootDir>/shared/$1',
   },
 };
 
@@ -0,0 +1,169 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Socket, ExtendedError } from 'socket.io';
+import { AuthenticatedUser, SocketData } from '../shared/socketContract';
+import { logger } from './logger';
+
+/**
+ * Verifies an ID token and resolves the identity it belongs to
+ */
+export interface TokenVerifier {
+  verify: (token: string) => Promise<AuthenticatedUser>;
+}
+
+export const AuthErrorCodes = {
+  MISSING_TOKEN: 'auth/missing-token',
+  INVALID_TOKEN: 'auth/invalid-token',
+} as const;
+
+export type AuthErrorCode =
+  (typeof AuthErrorCodes)[keyof typeof AuthErrorCodes];
+
+/**
+ * Error passed to the Socket.IO middleware chain when a handshake is rejected.
+ * The `data` payload is what the client receives on `connect_error`.
+ */
+export class SocketAuthError extends Error implements ExtendedError {
+  readonly code: AuthErrorCode;
+  readonly data: { code: AuthErrorCode };
+
+  constructor(code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = 'SocketAuthError';
+    this.code = code;
+    this.data = { code };
+  }
+}
+
+/**
+ * Verifier backed by Firebase Admin. firebase-admin is loaded lazily so the
+ * local verifier can be used without Google credentials.
+ */
+export const createFirebaseTokenVerifier = (): TokenVerifier => {
+  type DecodedToken = { uid: string; name?: string; email?: string };
+  let verifyIdToken: ((token: string) => Promise<DecodedToken>) | null = null;
+
+  const getVerifier = async () => {
+    if (verifyIdToken) return verifyIdToken;
+
+    const { initializeApp, getApps, applicationDefault } = await import(
+      'firebase-admin/app'
+    );
+    const { getAuth } = await import('firebase-admin/auth');
+
+    const app =
+      getApps()[0] ||
+      initializeApp({
+        credential: applicationDefault(),
+        projectId: process.env.FIREBASE_PROJECT_ID,
+      });
+    const auth = getAuth(app);
+
+    verifyIdToken = (token: string) => auth.verifyIdToken(token);
+    return verifyIdToken;
+  };
+
+  return {
+    verify: async (token) => {
+      const verify = await getVerifier();
+      const decoded = await verify(token);
+
+      return {
+        uid: decoded.uid,
+        displayName: decoded.name,
+        email: decoded.email,
+      };
+    },
+  };
+};
+
+const base64UrlDecode = (value: string): Buffer =>
+  Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+
+/**
+ * Verifier for HS256 tokens signed with a shared key. Intended for CI and
+ * local development where Firebase is not reachable.
+ */
+export const createLocalTokenVerifier = (key: string): TokenVerifier => ({
+  verify: async (token) => {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new Error('Malformed token');
+    }
+
+    const [header, payload, signature] = parts;
+    const expected = createHmac('sha256', key)
+      .update(`${header}.${payload}`)
+      .digest();
+    const actual = base64UrlDecode(signature);
+
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      throw new Error('Invalid token signature');
+    }
+
+    const claims = JSON.parse(base64UrlDecode(payload).toString('utf8'));
+
+    if (typeof claims.exp === 'number' && claims.exp * 1000 < Date.now()) {
+      throw new Error('Token expired');
+    }
+
+    const uid = claims.uid || claims.sub;
+    if (typeof uid !== 'string' || !uid) {
+      throw new Error('Token has no subject');
+    }
+
+    return { uid, displayName: claims.name, email: claims.email };
+  },
+});
+
+/**
+ * Pick a verifier from the environment: the local test key when
+ * SOCKET_AUTH_TEST_KEY is set, Firebase Admin otherwise.
+ */
+export const createTokenVerifierFromEnv = (): TokenVerifier => {
+  const testKey = process.env.SOCKET_AUTH_TEST_KEY;
+  return testKey
+    ? createLocalTokenVerifier(testKey)
+    : createFirebaseTokenVerifier();
+};
+
+/**
+ * Socket.IO middleware that rejects sockets without a valid ID token in the
+ * handshake `auth` payload and stores the verified user on `socket.data`.
+ */
+export const createAuthMiddleware =
+  (verifier: TokenVerifier) =>
+  async (
+    socket: Pick<Socket, 'id' | 'handshake'> & { data: Partial<SocketData> },
+    next: (err?: ExtendedError) => void
+  ) => {
+    const token = socket.handshake.auth?.token;
+
+    if (typeof token !== 'string' || !token) {
+      next(
+        new SocketAuthError(
+          AuthErrorCodes.MISSING_TOKEN,
+          'Authentication token is required'
+        )
+      );
+      return;
+    }
+
+    try {
+      socket.data.user = await verifier.verify(token);
+      next();
+    } catch (error) {
+      logger.warn('Rejected socket', {
+        socketId: socket.id,
+        reason: (error as Error).message,
+      });
+      next(
+        new SocketAuthError(
+          AuthErrorCodes.INVALID_TOKEN,
+          'Authentication token is invalid or expired'
+        )
+      );
+    }
+  };
@@ -0,0 +1,1385 @@
+import { createHmac } from 'crypto';
+import { createServer as createHttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Server } from 'socket.io';
+import { io as connectClient, Socket } from 'socket.io-client';
+import { createAdapter } from '@socket.io/redis-adapter';
+import {
+  ClientToServerEvents,
+  MESSAGE_MAX_LENGTH,
+  MessageDeletedPayload,
+  MessagePayload,
+  ServerToClientEvents,
+  SocketEvents,
+} from '../shared/socketContract';
+import { createLocalTokenVerifier } from './auth';
+import { createChatServer, ChatServer, ChatServerOptions } from './chatServer';
+import { createInMemoryConversationDirectory } from './conversations';
+import { createRoomEventLog } from './eventLog';
+import { createLogger } from './logger';
+import { createFileMessageStore } from './messageStore';
+import { createRateLimiter } from './rateLimit';
+import { createInProcessRedisClient } from './redis';
+import { createInMemoryServerState, createRedisServerState } from './state';
+
+// Only errors are worth seeing in test output
+process.env.LOG_LEVEL = 'error';
+
+type ClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+const TEST_KEY = 'integration-test-key';
+const PRESENCE_GRACE_MS = 50;
+const TYPING_EXPIRY_MS = 200;
+const DELETE_WINDOW_MS = 300;
+// How long to wait before concluding an event was not delivered
+const QUIET_MS = 100;
+
+const base64Url = (value: string | Buffer) =>
+  Buffer.from(value).toString('base64url');
+
+// An HS256 token accepted by the local token verifier
+const signToken = (uid: string, key = TEST_KEY) => {
+  const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64Url(JSON.stringify({ uid }));
+  const signature = base64Url(
+    createHmac('sha256', key).update(`${header}.${payload}`).digest()
+  );
+  return `${header}.${payload}.${signature}`;
+};
+
+const waitFor = <T = unknown>(
+  client: ClientSocket,
+  event: string,
+  timeoutMs = 1000
+): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Timed out waiting for ${event}`)),
+      timeoutMs
+    );
+    client.once(
+      event as never,
+      ((payload: T) => {
+        clearTimeout(timer);
+        resolve(payload);
+      }) as never
+    );
+  });
+
+// Collects every payload of `event` so tests can assert nothing arrived
+const record = <T = unknown>(client: ClientSocket, event: string): T[] => {
+  const received: T[] = [];
+  client.on(event as never, ((payload: T) => received.push(payload)) as never);
+  return received;
+};
+
+const pause = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// For tests that provoke errors on purpose
+const silentLogger = createLogger(
+  () => 'error',
+  {},
+  () => {}
+);
+
+type PubSubListener = (message: Buffer, channel: string) => void;
+
+// Redis pub/sub within the process, shaped like the `redis` package's client
+// as far as Socket.IO's Redis adapter uses it
+const createInProcessPubSub = () => {
+  const subscriptions = new Set<{
+    matches: (channel: string) => boolean;
+    listener: PubSubListener;
+  }>();
+
+  const subscribe = (
+    matches: (channel: string) => boolean,
+    listener: PubSubListener
+  ) => {
+    subscriptions.add({ matches, listener });
+  };
+  const unsubscribe = (listener: PubSubListener) => {
+    subscriptions.forEach((subscription) => {
+      if (subscription.listener === listener) {
+        subscriptions.delete(subscription);
+      }
+    });
+  };
+
+  return {
+    publish: async (channel: string, message: string | Buffer) => {
+      const matching = Array.from(subscriptions).filter(({ matches }) =>
+        matches(channel)
+      );
+      // Delivered later, as over a real connection
+      setImmediate(() =>
+        matching.forEach(({ listener }) =>
+          listener(Buffer.from(message), channel)
+        )
+      );
+      return matching.length;
+    },
+    // Only trailing `*` patterns, which is all the adapter subscribes to
+    pSubscribe: async (pattern: string, listener: PubSubListener) =>
+      subscribe(
+        (channel) => channel.startsWith(pattern.slice(0, -1)),
+        listener
+      ),
+    subscribe: async (channels: string[], listener: PubSubListener) =>
+      subscribe((channel) => channels.includes(channel), listener),
+    pUnsubscribe: async (_pattern: string, listener: PubSubListener) =>
+      unsubscribe(listener),
+    unsubscribe: async (_channel: string, listener: PubSubListener) =>
+      unsubscribe(listener),
+    on: () => {},
+    off: () => {},
+  };
+};
+
+describe('chat server', () => {
+  let server: ChatServer;
+  let url: string;
+  // Instances started next to `server`
+  let instances: ChatServer[];
+  let storeDir: string;
+  let clients: ClientSocket[];
+
+  const connect = (
+    uid: string,
+    auth: Record<string, unknown> = { token: signToken(uid) },
+    serverUrl = url
+  ): ClientSocket => {
+    const client: ClientSocket = connectClient(serverUrl, {
+      auth,
+      transports: ['websocket'],
+      reconnection: false,
+      forceNew: true,
+    });
+    clients.push(client);
+    return client;
+  };
+
+  const connected = async (uid: string, serverUrl = url) => {
+    const client = connect(uid, { token: signToken(uid) }, serverUrl);
+    await waitFor(client, SocketEvents.CONNECT);
+    return client;
+  };
+
+  const joinConversation = async (
+    client: ClientSocket,
+    conversationId: string
+  ) => {
+    const response = await client.emitWithAck(SocketEvents.JOIN_CONVERSATION, {
+      conversationId,
+    });
+    expect(response.ok).toBe(true);
+  };
+
+  const createServer = (options: Partial<ChatServerOptions> = {}) => {
+    const conversationDirectory = createInMemoryConversationDirectory({
+      'conv-1': ['alice', 'bob'],
+      'conv-2': ['carol'],
+    });
+    return createChatServer({
+      tokenVerifier: createLocalTokenVerifier(TEST_KEY),
+      conversationDirectory,
+      messageStore: createFileMessageStore(
+        join(storeDir, 'messages.json'),
+        conversationDirectory
+      ),
+      presenceGraceMs: PRESENCE_GRACE_MS,
+      typingExpiryMs: TYPING_EXPIRY_MS,
+      shutdownTimeoutMs: 1000,
+      deleteWindowMs: DELETE_WINDOW_MS,
+      ...options,
+    });
+  };
+
+  // Replace the running server with one built with `options`
+  const restartServer = async (options: Partial<ChatServerOptions> = {}) => {
+    await server?.shutdown('restarting');
+
+    server = createServer(options);
+    const port = await server.listen();
+    url = `http://localhost:${port}`;
+  };
+
+  // Replace the running server with one whose store, like Firestore, also
+  // holds the messages clients write themselves
+  const restartHoldingClientMessages = () => {
+    const directory = createInMemoryConversationDirectory({
+      'conv-1': ['alice', 'bob'],
+    });
+    return restartServer({
+      conversationDirectory: directory,
+      messageStore: {
+        ...createFileMessageStore(join(storeDir, 'messages.json'), directory),
+        holdsClientMessages: true,
+      },
+    });
+  };
+
+  // Start another instance next to the running server, resolving to its URL
+  const startInstance = async (options: Partial<ChatServerOptions> = {}) => {
+    const instance = createServer(options);
+    instances.push(instance);
+    const port = await instance.listen();
+    return `http://localhost:${port}`;
+  };
+
+  beforeEach(async () => {
+    storeDir = await mkdtemp(join(tmpdir(), 'chat-server-test-'));
+    clients = [];
+    instances = [];
+    await restartServer();
+  });
+
+  afterEach(async () => {
+    clients.forEach((client) => client.disconnect());
+    await Promise.all(
+      [server, ...instances].map((instance) =>
+        instance.shutdown('test finished')
+      )
+    );
+    // Let pending offline announcements run before the next server starts
+    await pause(PRESENCE_GRACE_MS * 2);
+    await rm(storeDir, { recursive: true, force: true });
+  });
+
+  describe('authentication', () => {
+    test('should reject a handshake without a token', async () => {
+      // Act
+      const client = connect('alice', {});
+      const error = await waitFor<Error & { data?: { code: string } }>(
+        client,
+        SocketEvents.CONNECT_ERROR
+      );
+
+      // Assert
+      expect(error.data?.code).toBe('auth/missing-token');
+    });
+
+    test('should reject a token signed with another key', async () => {
+      const client = connect('alice', {
+        token: signToken('alice', 'wrong-key'),
+      });
+      const error = await waitFor<Error & { data?: { code: string } }>(
+        client,
+        SocketEvents.CONNECT_ERROR
+      );
+
+      expect(error.data?.code).toBe('auth/invalid-token');
+    });
+  });
+
+  describe('presence', () => {
+    test('should announce users who connect and list them as online', async () => {
+      // Arrange
+      const alice = await connected('alice');
+      const announced = waitFor(alice, SocketEvents.USER_ONLINE);
+
+      // Act
+      const bob = await connected('bob');
+
+      // Assert
+      expect(await announced).toEqual({ userId: 'bob' });
+      const response = await bob.emitWithAck(SocketEvents.GET_ONLINE_USERS);
+      expect(response.userIds?.sort()).toEqual(['alice', 'bob']);
+    });
+
+    test('should keep a user online while another of their sockets is open', async () => {
+      const bob = await connected('bob');
+      const offline = record(bob, SocketEvents.USER_OFFLINE);
+      const firstTab = await connected('alice');
+      await connected('alice');
+
+      firstTab.disconnect();
+      await pause(PRESENCE_GRACE_MS * 3);
+
+      expect(offline).toEqual([]);
+      const response = await bob.emitWithAck(SocketEvents.GET_ONLINE_USERS);
+      expect(response.userIds).toContain('alice');
+    });
+  });
+
+  describe('conversation rooms', () => {
+    test('should only deliver messages to sockets in the conversation', async () => {
+      // Arrange
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      const carol = await connected('carol');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      await joinConversation(carol, 'conv-2');
+      const carolReceived = record(carol, SocketEvents.NEW_MESSAGE);
+      const bobReceived = waitFor(bob, SocketEvents.NEW_MESSAGE);
+
+      // Act
+      const response = await alice.emitWithAck(SocketEvents.NEW_MESSAGE, {
+        id: 'msg-1',
+        conversationId: 'conv-1',
+        content: 'Hello Bob',
+      });
+
+      // Assert
+      expect(response.ok).toBe(true);
+      expect(await bobReceived).toMatchObject({
+        id: 'msg-1',
+        sender: 'alice',
+        content: 'Hello Bob',
+        status: 'sent',
+      });
+      await pause(QUIET_MS);
+      expect(carolReceived).toEqual([]);
+    });
+
+    test('should only relay the whitelisted fields of a message', async () => {
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      const received = waitFor<MessagePayload>(bob, SocketEvents.NEW_MESSAGE);
+      const message = {
+        id: 'msg-22',
+        conversationId: 'conv-1',
+        content: 'Nothing else',
+        sender: 'bob',
+        timestamp: '2000-01-01T00:00:00.000Z',
+        status: 'read',
+        isAI: true,
+        reactions: { '👍': ['bob'] },
+        deletedAt: '2000-01-01T00:00:00.000Z',
+      };
+      const sentAt = Date.now();
+
+      await alice.emitWithAck(SocketEvents.NEW_MESSAGE, message);
+
+      const relayed = await received;
+      expect(relayed).toEqual({
+        id: 'msg-22',
+        conversationId: 'conv-1',
+        content: 'Nothing else',
+        sender: 'alice',
+        timestamp: expect.any(String),
+        status: 'sent',
+        seq: expect.any(Number),
+      });
+      expect(Date.parse(relayed.timestamp as string)).toBeGreaterThanOrEqual(
+        sentAt - 1000
+      );
+    });
+
+    test('should reject relayed messages over the length limit', async () => {
+      const alice = await connected('alice');
+      await joinConversation(alice, 'conv-1');
+
+      const response = await alice.emitWithAck(SocketEvents.NEW_MESSAGE, {
+        id: 'msg-23',
+        conversationId: 'conv-1',
+        content: 'a'.repeat(MESSAGE_MAX_LENGTH + 1),
+      });
+
+      expect(response).toEqual({ ok: false, error: 'invalid_payload' });
+    });
+
+    test('should fail the acknowledgement if a message cannot be broadcast', async () => {
+      const state = createInMemoryServerState();
+      await restartServer({
+        logger: silentLogger,
+        state: {
+          ...state,
+          eventLog: {
+            ...createRoomEventLog(),
+            append: async () => {
+              throw new Error('Event log unavailable');
+            },
+          },
+        },
+      });
+      const alice = await connected('alice');
+      await joinConversation(alice, 'conv-1');
+      const message = {
+        id: 'msg-14',
+        conversationId: 'conv-1',
+        sender: 'alice',
+        content: 'Lost',
+        timestamp: new Date().toISOString(),
+        status: 'sent' as const,
+      };
+
+      const first = await alice.emitWithAck(SocketEvents.NEW_MESSAGE, message);
+      const retry = await alice.emitWithAck(SocketEvents.NEW_MESSAGE, message);
+
+      expect(first).toEqual({ ok: false, error: 'message_failed' });
+      // Not mistaken for a duplicate of a message that was relayed
+      expect(retry).toEqual({ ok: false, error: 'message_failed' });
+    });
+
+    test('should refuse to let non-participants join', async () => {
+      const carol = await connected('carol');
+
+      const response = await carol.emitWithAck(SocketEvents.JOIN_CONVERSATION, {
+        conversationId: 'conv-1',
+      });
+
+      expect(response).toEqual({ ok: false, error: 'not_a_participant' });
+    });
+
+    test('should stamp stored messages with the verified sender', async () => {
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      const updated = waitFor(bob, SocketEvents.MESSAGES_UPDATED);
+
+      const response = await alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-2',
+        conversationId: 'conv-1',
+        content: 'Stored by the server',
+      });
+
+      expect(response.message).toMatchObject({ id: 'msg-2', sender: 'alice' });
+      expect(await updated).toMatchObject({
+        conversationId: 'conv-1',
+        messages: [{ id: 'msg-2', sender: 'alice', status: 'sent' }],
+      });
+    });
+
+    test('should store the quoted message with a reply', async () => {
+      const alice = await connected('alice');
+      await joinConversation(alice, 'conv-1');
+      const replyTo = { id: 'msg-2', sender: 'bob', content: 'Quoted' };
+
+      const response = await alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-13',
+        conversationId: 'conv-1',
+        content: 'Replying',
+        replyTo,
+      });
+
+      expect(response.message).toMatchObject({ id: 'msg-13', replyTo });
+      const stored = JSON.parse(
+        await readFile(join(storeDir, 'messages.json'), 'utf8')
+      );
+      expect(stored.messages['msg-13'].replyTo).toEqual(replyTo);
+    });
+
+    test('should store messages from participants who have not joined the room', async () => {
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(bob, 'conv-1');
+      const updated = waitFor(bob, SocketEvents.MESSAGES_UPDATED);
+
+      const response = await alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-17',
+        conversationId: 'conv-1',
+        content: 'Queued while offline',
+      });
+
+      expect(response).toMatchObject({ ok: true, message: { id: 'msg-17' } });
+      expect(await updated).toMatchObject({ messages: [{ id: 'msg-17' }] });
+    });
+
+    test('should not reuse a message ID from another sender or conversation', async () => {
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      const carol = await connected('carol');
+      await alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-19',
+        conversationId: 'conv-1',
+        content: 'The original',
+      });
+
+      const fromBob = await bob.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-19',
+        conversationId: 'conv-1',
+        content: 'Same ID, other sender',
+      });
+      const fromCarol = await carol.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-19',
+        conversationId: 'conv-2',
+        content: 'Same ID, other conversation',
+      });
+
+      expect(fromBob).toEqual({ ok: false, error: 'message_id_taken' });
+      expect(fromCarol).toEqual({ ok: false, error: 'message_id_taken' });
+      const stored = JSON.parse(
+        await readFile(join(storeDir, 'messages.json'), 'utf8')
+      );
+      expect(stored.messages['msg-19']).toMatchObject({
+        sender: 'alice',
+        content: 'The original',
+      });
+    });
+
+    test('should reject messages from users outside the conversation', async () => {
+      const carol = await connected('carol');
+
+      const response = await carol.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-18',
+        conversationId: 'conv-1',
+        content: 'Not my conversation',
+      });
+
+      expect(response).toEqual({ ok: false, error: 'not_a_participant' });
+    });
+  });
+
+  describe('edits', () => {
+    test('should store the previous version and broadcast the edit', async () => {
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      await alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-7',
+        conversationId: 'conv-1',
+        content: 'Helo',
+      });
+      const edited = waitFor(bob, SocketEvents.MESSAGE_EDITED);
+
+      const response = await alice.emitWithAck(SocketEvents.EDIT_MESSAGE, {
+        messageId: 'msg-7',
+        conversationId: 'conv-1',
+        content: 'Hello',
+      });
+
+      expect(response).toMatchObject({
+        ok: true,
+        message: {
+          id: 'msg-7',
+          content: 'Hello',
+          editedAt: expect.any(String),
+        },
+      });
+      expect(await edited).toMatchObject({
+        messageId: 'msg-7',
+        content: 'Hello',
+        userId: 'alice',
+      });
+      const stored = JSON.parse(
+        await readFile(join(storeDir, 'messages.json'), 'utf8')
+      );
+      expect(stored.history['msg-7']).toEqual([
+        { content: 'Helo', timestamp: stored.messages['msg-7'].timestamp },
+      ]);
+      expect(stored.conversations['conv-1'].lastMessage.content).toBe('Hello');
+    });
+
+    test('should only let the sender edit a message', async () => {
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      await alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-8',
+        conversationId: 'conv-1',
+        content: 'Mine',
+      });
+
+      const response = await bob.emitWithAck(SocketEvents.EDIT_MESSAGE, {
+        messageId: 'msg-8',
+        conversationId: 'conv-1',
+        content: 'Not yours',
+      });
+
+      expect(response).toEqual({ ok: false, error: 'not_message_sender' });
+    });
+
+    test('should only relay edits from the sender', async () => {
+      await restartHoldingClientMessages();
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      await alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-27',
+        conversationId: 'conv-1',
+        content: 'Edited by the client',
+      });
+      const edits = record(alice, SocketEvents.MESSAGE_EDITED);
+      const relay = (socket: ClientSocket, messageId: string) =>
+        socket.emitWithAck(SocketEvents.MESSAGE_EDITED, {
+          messageId,
+          conversationId: 'conv-1',
+          content: 'Changed',
+          editedAt: new Date().toISOString(),
+        });
+
+      const byBob = await relay(bob, 'msg-27');
+      const unknown = await relay(alice, 'msg-404');
+      const byAlice = await relay(alice, 'msg-27');
+      await pause(QUIET_MS);
+
+      expect(byBob).toEqual({ ok: false, error: 'not_message_sender' });
+      expect(unknown).toEqual({ ok: false, error: 'message_not_found' });
+      expect(byAlice).toEqual({ ok: true });
+      expect(edits).toEqual([
+        expect.objectContaining({ messageId: 'msg-27', userId: 'alice' }),
+      ]);
+    });
+  });
+
+  describe('deletions', () => {
+    test('should leave a tombstone and fall back to the previous last message', async () => {
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      for (const id of ['msg-9', 'msg-10']) {
+        await alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+          id,
+          conversationId: 'conv-1',
+          content: id,
+        });
+        await pause(5);
+      }
+      const deleted = waitFor(bob, SocketEvents.MESSAGE_DELETED);
+
+      const response = await alice.emitWithAck(SocketEvents.DELETE_MESSAGE, {
+        messageId: 'msg-10',
+        conversationId: 'conv-1',
+      });
+
+      expect(response).toMatchObject({
+        ok: true,
+        message: { content: '', deletedAt: expect.any(String) },
+      });
+      expect(await deleted).toMatchObject({
+        messageId: 'msg-10',
+        userId: 'alice',
+      });
+      const stored = JSON.parse(
+        await readFile(join(storeDir, 'messages.json'), 'utf8')
+      );
+      expect(stored.messages['msg-10'].content).toBe('');
+      expect(stored.conversations['conv-1'].lastMessage).toMatchObject({
+        content: 'msg-9',
+      });
+    });
+
+    test('should refuse to delete for everyone after the window', async () => {
+      const alice = await connected('alice');
+      await joinConversation(alice, 'conv-1');
+      await alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-11',
+        conversationId: 'conv-1',
+        content: 'Too late',
+      });
+      await pause(DELETE_WINDOW_MS + 50);
+
+      const response = await alice.emitWithAck(SocketEvents.DELETE_MESSAGE, {
+        messageId: 'msg-11',
+        conversationId: 'conv-1',
+      });
+
+      expect(response).toEqual({ ok: false, error: 'delete_window_expired' });
+    });
+
+    test('should relay a deletion stamped with the server time', async () => {
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      await alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-24',
+        conversationId: 'conv-1',
+        content: 'Deleted by the client',
+      });
+      const deleted = waitFor<MessageDeletedPayload>(
+        bob,
+        SocketEvents.MESSAGE_DELETED
+      );
+
+      const response = await alice.emitWithAck(SocketEvents.MESSAGE_DELETED, {
+        messageId: 'msg-24',
+        conversationId: 'conv-1',
+        deletedAt: '2100-01-01T00:00:00.000Z',
+      });
+
+      expect(response).toEqual({ ok: true });
+      const relayed = await deleted;
+      expect(relayed).toMatchObject({ messageId: 'msg-24', userId: 'alice' });
+      expect(Date.parse(relayed.deletedAt)).toBeLessThanOrEqual(Date.now());
+    });
+
+    test('should not relay deletions the sender could not make', async () => {
+      await restartHoldingClientMessages();
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      await alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-25',
+        conversationId: 'conv-1',
+        content: 'Not yours to delete',
+      });
+      const relay = (socket: ClientSocket, messageId: string) =>
+        socket.emitWithAck(SocketEvents.MESSAGE_DELETED, {
+          messageId,
+          conversationId: 'conv-1',
+          deletedAt: new Date().toISOString(),
+        });
+
+      const byBob = await relay(bob, 'msg-25');
+      const unknown = await relay(alice, 'msg-404');
+      await pause(DELETE_WINDOW_MS + 50);
+      const tooLate = await relay(alice, 'msg-25');
+
+      expect(byBob).toEqual({ ok: false, error: 'not_message_sender' });
+      expect(unknown).toEqual({ ok: false, error: 'message_not_found' });
+      expect(tooLate).toEqual({ ok: false, error: 'delete_window_expired' });
+    });
+
+    test('should relay changes to messages the store has no way of knowing', async () => {
+      // The file store only holds messages sent through the server
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      const edited = waitFor(bob, SocketEvents.MESSAGE_EDITED);
+      const deleted = waitFor(bob, SocketEvents.MESSAGE_DELETED);
+
+      const edit = await alice.emitWithAck(SocketEvents.MESSAGE_EDITED, {
+        messageId: 'msg-28',
+        conversationId: 'conv-1',
+        content: 'Written by the client',
+        editedAt: new Date().toISOString(),
+      });
+      const deletion = await alice.emitWithAck(SocketEvents.MESSAGE_DELETED, {
+        messageId: 'msg-28',
+        conversationId: 'conv-1',
+        deletedAt: new Date().toISOString(),
+      });
+
+      expect(edit).toEqual({ ok: true });
+      expect(deletion).toEqual({ ok: true });
+      expect(await edited).toMatchObject({
+        messageId: 'msg-28',
+        userId: 'alice',
+      });
+      expect(await deleted).toMatchObject({
+        messageId: 'msg-28',
+        userId: 'alice',
+      });
+    });
+  });
+
+  describe('reactions', () => {
+    test('should add and remove reactions per user', async () => {
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      await alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-12',
+        conversationId: 'conv-1',
+        content: 'React to this',
+      });
+      const react = (socket: typeof alice, action: 'add' | 'remove') =>
+        socket.emitWithAck(SocketEvents.UPDATE_REACTION, {
+          messageId: 'msg-12',
+          conversationId: 'conv-1',
+          emoji: '👍',
+          action,
+        });
+      const updated = waitFor(alice, SocketEvents.REACTION_UPDATED);
+
+      await react(bob, 'add');
+      await react(alice, 'add');
+      const response = await react(bob, 'remove');
+
+      expect(await updated).toMatchObject({ emoji: '👍', userId: 'bob' });
+      expect(response).toMatchObject({
+        ok: true,
+        message: { reactions: { '👍': ['alice'] } },
+      });
+    });
+  });
+
+  describe('typing', () => {
+    test('should relay typing to the rest of the room only', async () => {
+      // Arrange
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      const echoed = record(alice, SocketEvents.USER_TYPING);
+      const started = waitFor(bob, SocketEvents.USER_TYPING);
+
+      // Act
+      alice.emit(SocketEvents.USER_TYPING, { conversationId: 'conv-1' });
+
+      // Assert
+      expect(await started).toMatchObject({
+        conversationId: 'conv-1',
+        userId: 'alice',
+      });
+      const stopped = waitFor(bob, SocketEvents.USER_STOP_TYPING);
+      alice.emit(SocketEvents.USER_STOP_TYPING, { conversationId: 'conv-1' });
+      expect(await stopped).toMatchObject({ userId: 'alice' });
+      expect(echoed).toEqual([]);
+    });
+
+    test('should show typing to participants who have not joined the conversation', async () => {
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      const carol = await connected('carol');
+      await joinConversation(alice, 'conv-1');
+      const carolTyping = record(carol, SocketEvents.USER_TYPING);
+      const started = waitFor(bob, SocketEvents.USER_TYPING);
+
+      alice.emit(SocketEvents.USER_TYPING, { conversationId: 'conv-1' });
+
+      expect(await started).toMatchObject({
+        conversationId: 'conv-1',
+        userId: 'alice',
+      });
+      await pause(QUIET_MS);
+      expect(carolTyping).toEqual([]);
+    });
+
+    test('should keep typing out of the room event log', async () => {
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      const joined = await bob.emitWithAck(SocketEvents.JOIN_CONVERSATION, {
+        conversationId: 'conv-1',
+      });
+      const started = waitFor(bob, SocketEvents.USER_TYPING);
+      alice.emit(SocketEvents.USER_TYPING, { conversationId: 'conv-1' });
+      const stopped = waitFor(bob, SocketEvents.USER_STOP_TYPING);
+      await started;
+      alice.emit(SocketEvents.USER_STOP_TYPING, { conversationId: 'conv-1' });
+
+      expect(await stopped).toEqual({
+        conversationId: 'conv-1',
+        userId: 'alice',
+      });
+      const rejoined = await bob.emitWithAck(SocketEvents.JOIN_CONVERSATION, {
+        conversationId: 'conv-1',
+        resumeFrom: { epoch: joined.epoch!, seq: joined.seq! },
+      });
+      expect(rejoined).toMatchObject({ seq: joined.seq, missed: [] });
+    });
+
+    test('should stop typing once the client stops refreshing it', async () => {
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      const stopped = waitFor(bob, SocketEvents.USER_STOP_TYPING);
+
+      alice.emit(SocketEvents.USER_TYPING, { conversationId: 'conv-1' });
+
+      expect(await stopped).toMatchObject({ userId: 'alice' });
+    });
+  });
+
+  describe('several instances', () => {
+    // Two instances sharing state and broadcasts through one in-process Redis
+    const startSharedInstances = async () => {
+      const redis = createInProcessRedisClient();
+      const pubSub = createInProcessPubSub();
+      const attachAdapter = async (io: Server) => {
+        io.adapter(createAdapter(pubSub, pubSub));
+      };
+
+      await restartServer({
+        state: createRedisServerState(redis, attachAdapter),
+      });
+      return startInstance({
+        state: createRedisServerState(redis, attachAdapter),
+      });
+    };
+
+    test('should share presence between instances', async () => {
+      const otherUrl = await startSharedInstances();
+      await connected('alice');
+
+      const bob = await connected('bob', otherUrl);
+
+      const response = await bob.emitWithAck(SocketEvents.GET_ONLINE_USERS);
+      expect(response.userIds?.sort()).toEqual(['alice', 'bob']);
+    });
+
+    test('should number room events from one counter across instances', async () => {
+      const otherUrl = await startSharedInstances();
+      const alice = await connected('alice');
+      const bob = await connected('bob', otherUrl);
+      const aliceJoined = await alice.emitWithAck(
+        SocketEvents.JOIN_CONVERSATION,
+        { conversationId: 'conv-1' }
+      );
+      await alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-15',
+        conversationId: 'conv-1',
+        content: 'Sent through the first instance',
+      });
+
+      const bobJoined = await bob.emitWithAck(SocketEvents.JOIN_CONVERSATION, {
+        conversationId: 'conv-1',
+      });
+
+      expect(bobJoined.epoch).toBe(aliceJoined.epoch);
+      expect(bobJoined.seq).toBe(aliceJoined.seq! + 1);
+    });
+
+    test('should deliver room events to participants on another instance', async () => {
+      const otherUrl = await startSharedInstances();
+      const alice = await connected('alice');
+      const bob = await connected('bob', otherUrl);
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+
+      const updated = waitFor(bob, SocketEvents.MESSAGES_UPDATED);
+      await alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-26',
+        conversationId: 'conv-1',
+        content: 'Across instances',
+      });
+
+      expect(await updated).toMatchObject({
+        conversationId: 'conv-1',
+        messages: [{ id: 'msg-26', content: 'Across instances' }],
+      });
+    });
+
+    test('should reach a user room on another instance', async () => {
+      const otherUrl = await startSharedInstances();
+      const alice = await connected('alice');
+      // Bob hasn't joined the room, so only his user room gets the event
+      const bob = await connected('bob', otherUrl);
+      await joinConversation(alice, 'conv-1');
+
+      const typing = waitFor(bob, SocketEvents.USER_TYPING);
+      alice.emit(SocketEvents.USER_TYPING, { conversationId: 'conv-1' });
+
+      expect(await typing).toEqual({
+        conversationId: 'conv-1',
+        userId: 'alice',
+      });
+    });
+
+    test('should recognise a message retried on another instance', async () => {
+      const otherUrl = await startSharedInstances();
+      const message = {
+        id: 'msg-16',
+        conversationId: 'conv-1',
+        sender: 'alice',
+        content: 'Retried elsewhere',
+        timestamp: new Date().toISOString(),
+        status: 'sent' as const,
+      };
+      const firstTab = await connected('alice');
+      const secondTab = await connected('alice', otherUrl);
+      await joinConversation(firstTab, 'conv-1');
+      await joinConversation(secondTab, 'conv-1');
+
+      await firstTab.emitWithAck(SocketEvents.NEW_MESSAGE, message);
+      const retry = await secondTab.emitWithAck(
+        SocketEvents.NEW_MESSAGE,
+        message
+      );
+
+      expect(retry).toEqual({ ok: true, duplicate: true });
+    });
+  });
+
+  describe('catching up', () => {
+    // Join conv-1 as Bob, then have Alice send `count` read receipts there
+    const missEvents = async (count: number) => {
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      const joined = await bob.emitWithAck(SocketEvents.JOIN_CONVERSATION, {
+        conversationId: 'conv-1',
+      });
+      for (let i = 1; i <= count; i++) {
+        const receipt = waitFor(bob, SocketEvents.MESSAGE_READ);
+        alice.emit(SocketEvents.MESSAGE_READ, {
+          messageId: `msg-${i}`,
+          conversationId: 'conv-1',
+        });
+        await receipt;
+      }
+      return { bob, epoch: joined.epoch!, seq: joined.seq! };
+    };
+
+    const rejoin = (
+      client: ClientSocket,
+      resumeFrom: { epoch: string; seq: number }
+    ) =>
+      client.emitWithAck(SocketEvents.JOIN_CONVERSATION, {
+        conversationId: 'conv-1',
+        resumeFrom,
+      });
+
+    test('should replay the events missed since the resume point', async () => {
+      const { bob, epoch, seq } = await missEvents(2);
+
+      const response = await rejoin(bob, { epoch, seq });
+
+      expect(response).toMatchObject({ ok: true, epoch, seq: seq + 2 });
+      expect(response.missed).toEqual([
+        {
+          event: SocketEvents.MESSAGE_READ,
+          payload: expect.objectContaining({ messageId: 'msg-1' }),
+        },
+        {
+          event: SocketEvents.MESSAGE_READ,
+          payload: expect.objectContaining({ messageId: 'msg-2' }),
+        },
+      ]);
+    });
+
+    test('should ask for a refetch once the missed events were dropped', async () => {
+      await restartServer({
+        state: {
+          ...createInMemoryServerState(),
+          eventLog: createRoomEventLog(2),
+        },
+      });
+      const { bob, epoch, seq } = await missEvents(3);
+
+      const response = await rejoin(bob, { epoch, seq });
+
+      expect(response).toMatchObject({ ok: true, refetch: true });
+      expect(response.missed).toBeUndefined();
+    });
+
+    test('should ask for a refetch when resuming from the future', async () => {
+      const { bob, epoch, seq } = await missEvents(1);
+
+      const response = await rejoin(bob, { epoch, seq: seq + 5 });
+
+      expect(response).toMatchObject({ ok: true, refetch: true });
+    });
+
+    test('should ask for a refetch when resuming from another epoch', async () => {
+      const { bob, seq } = await missEvents(1);
+
+      const response = await rejoin(bob, { epoch: 'before-restart', seq });
+
+      expect(response).toMatchObject({ ok: true, refetch: true });
+    });
+  });
+
+  describe('receipts', () => {
+    test('should broadcast read receipts with the reader', async () => {
+      // Arrange
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      const receipt = waitFor(alice, SocketEvents.MESSAGE_READ);
+
+      // Act
+      bob.emit(SocketEvents.MESSAGE_READ, {
+        messageId: 'msg-1',
+        conversationId: 'conv-1',
+      });
+
+      // Assert
+      expect(await receipt).toEqual({
+        messageId: 'msg-1',
+        conversationId: 'conv-1',
+        userId: 'bob',
+        timestamp: expect.any(String),
+        seq: expect.any(Number),
+      });
+    });
+
+    test('should store the first delivery and read time per recipient', async () => {
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      await alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-3',
+        conversationId: 'conv-1',
+        content: 'Did you get this?',
+      });
+      const read = waitFor<{ timestamp: string }>(
+        alice,
+        SocketEvents.MESSAGE_READ
+      );
+
+      bob.emit(SocketEvents.MESSAGE_DELIVERED, {
+        messageId: 'msg-3',
+        conversationId: 'conv-1',
+      });
+      bob.emit(SocketEvents.MESSAGE_READ, {
+        messageId: 'msg-3',
+        conversationId: 'conv-1',
+      });
+      const { timestamp: readAt } = await read;
+      await pause(QUIET_MS);
+
+      const stored = JSON.parse(
+        await readFile(join(storeDir, 'messages.json'), 'utf8')
+      );
+      expect(stored.messages['msg-3'].receipts).toEqual({
+        bob: { deliveredAt: expect.any(String), readAt },
+      });
+    });
+
+    test('should mark earlier messages from others read with a read receipt', async () => {
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      for (const [id, socket] of [
+        ['msg-4', alice],
+        ['msg-5', bob],
+        ['msg-6', alice],
+      ] as const) {
+        await socket.emitWithAck(SocketEvents.SEND_MESSAGE, {
+          id,
+          conversationId: 'conv-1',
+          content: id,
+        });
+        await pause(5);
+      }
+      const read = waitFor<{ timestamp: string }>(
+        alice,
+        SocketEvents.MESSAGE_READ
+      );
+
+      bob.emit(SocketEvents.MESSAGE_READ, {
+        messageId: 'msg-6',
+        conversationId: 'conv-1',
+      });
+      const { timestamp: readAt } = await read;
+      await pause(QUIET_MS);
+
+      const stored = JSON.parse(
+        await readFile(join(storeDir, 'messages.json'), 'utf8')
+      );
+      expect(stored.messages['msg-4'].receipts).toEqual({
+        bob: { deliveredAt: readAt, readAt },
+      });
+      expect(stored.messages['msg-5'].receipts).toBeUndefined();
+      expect(stored.messages['msg-6'].receipts).toEqual({
+        bob: { deliveredAt: readAt, readAt },
+      });
+    });
+
+    test('should reject receipts for conversations the socket has not joined', async () => {
+      const bob = await connected('bob');
+      const error = waitFor(bob, SocketEvents.ERROR);
+
+      bob.emit(SocketEvents.MESSAGE_READ, {
+        messageId: 'msg-1',
+        conversationId: 'conv-1',
+      });
+
+      expect(await error).toMatchObject({ code: 'not_in_conversation' });
+    });
+  });
+
+  describe('rate limiting', () => {
+    // One online users request, then none for the rest of the test
+    const limitOnlineUsers = () =>
+      restartServer({
+        rateLimiter: createRateLimiter(
+          { get_online_users: { capacity: 1, refillPerSecond: 0.001 } },
+          3
+        ),
+        logger: silentLogger,
+      });
+
+    test('should answer events over the limit with an error', async () => {
+      await limitOnlineUsers();
+      const alice = await connected('alice');
+      await alice.emitWithAck(SocketEvents.GET_ONLINE_USERS);
+      const error = waitFor(alice, SocketEvents.ERROR);
+
+      const response = await alice.emitWithAck(SocketEvents.GET_ONLINE_USERS);
+
+      expect(response).toEqual({ ok: false, error: 'rate_limited' });
+      expect(await error).toEqual({
+        code: 'rate_limited',
+        message: expect.any(String),
+        event: SocketEvents.GET_ONLINE_USERS,
+        retryAfterMs: expect.any(Number),
+      });
+    });
+
+    test('should disconnect a socket that keeps flooding', async () => {
+      await limitOnlineUsers();
+      const alice = await connected('alice');
+      const disconnected = waitFor(alice, SocketEvents.DISCONNECT);
+
+      for (let i = 0; i < 4; i++) {
+        alice.emit(SocketEvents.GET_ONLINE_USERS, () => {});
+      }
+
+      expect(await disconnected).toBe('io server disconnect');
+    });
+  });
+
+  describe('disconnect', () => {
+    test('should clear typing and announce the user offline after the grace period', async () => {
+      // Arrange
+      const alice = await connected('alice');
+      const bob = await connected('bob');
+      await joinConversation(alice, 'conv-1');
+      await joinConversation(bob, 'conv-1');
+      const started = waitFor(bob, SocketEvents.USER_TYPING);
+      alice.emit(SocketEvents.USER_TYPING, { conversationId: 'conv-1' });
+      await started;
+      const stopped = waitFor(bob, SocketEvents.USER_STOP_TYPING);
+      const offline = waitFor(bob, SocketEvents.USER_OFFLINE);
+
+      // Act
+      alice.disconnect();
+
+      // Assert
+      expect(await stopped).toMatchObject({ userId: 'alice' });
+      expect(await offline).toEqual({ userId: 'alice' });
+      const response = await bob.emitWithAck(SocketEvents.GET_ONLINE_USERS);
+      expect(response.userIds).toEqual(['bob']);
+    });
+  });
+
+  describe('health checks', () => {
+    test('should report ready when everything can be reached', async () => {
+      const response = await fetch(`${url}/health/ready`);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        status: 'ready',
+        checks: { adapter: 'ok', draining: 'ok', state: 'ok', storage: 'ok' },
+      });
+    });
+
+    test('should expose socket and event metrics', async () => {
+      const alice = await connected('alice');
+      await joinConversation(alice, 'conv-1');
+
+      const response = await fetch(`${url}/metrics`);
+      const body = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(body).toMatch(/^chat_connected_sockets 1$/m);
+      expect(body).toMatch(
+        /^chat_events_received_total\{event="join_conversation"\} 1$/m
+      );
+    });
+  });
+
+  describe('shutdown', () => {
+    // A message store whose saves wait until `release` is called
+    const startWithBlockedSaves = async () => {
+      let release = () => {};
+      const released = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      let saving = () => {};
+      const saveStarted = new Promise<void>((resolve) => {
+        saving = resolve;
+      });
+
+      const directory = createInMemoryConversationDirectory({
+        'conv-1': ['alice', 'bob'],
+      });
+      const store = createFileMessageStore(
+        join(storeDir, 'messages.json'),
+        directory
+      );
+      await restartServer({
+        conversationDirectory: directory,
+        messageStore: {
+          ...store,
+          saveMessage: async (message) => {
+            saving();
+            await released;
+            return store.saveMessage(message);
+          },
+        },
+      });
+      return { release, saveStarted };
+    };
+
+    test('should tell clients and wait for acknowledgements still owed', async () => {
+      // Arrange
+      const { release, saveStarted } = await startWithBlockedSaves();
+      const alice = await connected('alice');
+      const drainingNotice = waitFor(alice, SocketEvents.SERVER_DRAINING);
+      const ack = alice.emitWithAck(SocketEvents.SEND_MESSAGE, {
+        id: 'msg-20',
+        conversationId: 'conv-1',
+        content: 'Sent just before a deploy',
+      });
+      await saveStarted;
+
+      // Act
+      let closed = false;
+      const shutdown = server.shutdown('deploy').then(() => {
+        closed = true;
+      });
+      await drainingNotice;
+      await pause(QUIET_MS);
+
+      // Assert - still open until the save finishes
+      expect(closed).toBe(false);
+      release();
+      expect(await ack).toMatchObject({ ok: true, message: { id: 'msg-20' } });
+      await shutdown;
+      expect(closed).toBe(true);
+    });
+
+    test('should not wait for callbacks sent with events that are never acknowledged', async () => {
+      await restartServer({ shutdownTimeoutMs: 3000 });
+      const alice = await connected('alice');
+      await joinConversation(alice, 'conv-1');
+      // Typing has no acknowledgement, whatever the client sends along
+      (alice as unknown as Socket).emit(
+        SocketEvents.USER_TYPING,
+        { conversationId: 'conv-1' },
+        () => {}
+      );
+      await pause(QUIET_MS);
+
+      const startedAt = Date.now();
+      await server.shutdown('deploy');
+
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+    });
+
+    test('should report not ready while draining', async () => {
+      const { release, saveStarted } = await startWithBlockedSaves();
+      const alice = await connected('alice');
+      alice.emit(
+        SocketEvents.SEND_MESSAGE,
+        { id: 'msg-21', conversationId: 'conv-1', content: 'Keeps it open' },
+        () => {}
+      );
+      await saveStarted;
+      const shutdown = server.shutdown('deploy');
+      // The drained server no longer accepts connections, so ask its app
+      // through a server of our own
+      const probe = createHttpServer(server.app);
+      await new Promise<void>((resolve) => probe.listen(0, resolve));
+
+      try {
+        const { port } = probe.address() as AddressInfo;
+        const response = await fetch(`http://localhost:${port}/health/ready`);
+
+        expect(response.status).toBe(503);
+        expect(await response.json()).toMatchObject({
+          status: 'not_ready',
+          checks: { draining: 'Server is shutting down' },
+        });
+      } finally {
+        probe.close();
+        release();
+        await shutdown;
+      }
+    });
+  });
+});
@@ -0,0 +1,1010 @@
+import express from 'express';
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server, DefaultEventsMap } from 'socket.io';
+import cors from 'cors';
+import {
+  ClientEventPayload,
+  ClientToServerEvents,
+  MESSAGE_DELETE_WINDOW_MS,
+  RoomEventMap,
+  RoomEventName,
+  Sequenced,
+  ServerToClientEvents,
+  SocketData,
+  SocketErrorCodes,
+  SocketEvents,
+  ValidatedClientEvent,
+  parseClientPayload,
+} from '../shared/socketContract';
+import { createAuthMiddleware, TokenVerifier } from './auth';
+import {
+  conversationRoom,
+  ConversationDirectory,
+  isParticipant,
+  userRoom,
+} from './conversations';
+import { createTypingTracker, TYPING_EXPIRY_MS } from './typing';
+import { createInMemoryServerState, ServerState } from './state';
+import { createPresenceTracker, PRESENCE_GRACE_MS } from './presence';
+import { createRateLimiter, RateLimiter } from './rateLimit';
+import { MessageStore } from './messageStore';
+import { logger as defaultLogger, Logger } from './logger';
+import { createServerMetrics } from './metrics';
+import {
+  createInFlightTracker,
+  settlesWithin,
+  SHUTDOWN_TIMEOUT_MS,
+} from './shutdown';
+
+export type ChatIo = Server<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  DefaultEventsMap,
+  SocketData
+>;
+
+export interface ChatServerOptions {
+  tokenVerifier: TokenVerifier;
+  // Used to check conversation membership before joining rooms
+  conversationDirectory: ConversationDirectory;
+  // Persists messages sent with SEND_MESSAGE, and their edits and deletions
+  messageStore: MessageStore;
+  // Origin allowed by CORS (default: http://localhost:3000)
+  clientUrl?: string;
+  // Presence, the room event log and relayed message IDs (default: in-memory)
+  state?: ServerState;
+  rateLimiter?: RateLimiter;
+  logger?: Logger;
+  presenceGraceMs?: number;
+  typingExpiryMs?: number;
+  shutdownTimeoutMs?: number;
+  // How long after sending a sender can delete a message for everyone
+  deleteWindowMs?: number;
+}
+
+export interface ChatServer {
+  app: express.Express;
+  httpServer: HttpServer;
+  io: ChatIo;
+  // Attach the adapter and start listening; port 0 picks a free port. Resolves
+  // to the port in use.
+  listen: (port?: number) => Promise<number>;
+  // Drain and close: stop accepting connections, ask clients to reconnect to
+  // another instance, wait for acknowledgements still owed, then close the
+  // remaining sockets. Resolves once closed.
+  shutdown: (reason?: string) => Promise<void>;
+}
+
+// Client events whose handlers answer the acknowledgement callback. A callback
+// sent with any other event is never called, so shutdown mustn't wait for it.
+const ACKNOWLEDGED_EVENTS = new Set<string>([
+  SocketEvents.NEW_MESSAGE,
+  SocketEvents.SEND_MESSAGE,
+  SocketEvents.EDIT_MESSAGE,
+  SocketEvents.MESSAGE_EDITED,
+  SocketEvents.DELETE_MESSAGE,
+  SocketEvents.MESSAGE_DELETED,
+  SocketEvents.UPDATE_REACTION,
+  SocketEvents.REACTION_UPDATED,
+  SocketEvents.JOIN_CONVERSATION,
+  SocketEvents.GET_ONLINE_USERS,
+] satisfies (keyof ClientToServerEvents)[]);
+
+/**
+ * The socket server with everything it depends on passed in, so it can run
+ * from the environment in production and on an ephemeral port in tests
+ */
+export const createChatServer = ({
+  tokenVerifier,
+  conversationDirectory,
+  messageStore,
+  clientUrl = 'http://localhost:3000',
+  state = createInMemoryServerState(),
+  rateLimiter = createRateLimiter(),
+  logger = defaultLogger,
+  presenceGraceMs = PRESENCE_GRACE_MS,
+  typingExpiryMs = TYPING_EXPIRY_MS,
+  shutdownTimeoutMs = SHUTDOWN_TIMEOUT_MS,
+  deleteWindowMs = MESSAGE_DELETE_WINDOW_MS,
+}: ChatServerOptions): ChatServer => {
+  // Initialize Express app
+  const app = express();
+  app.use(
+    cors({
+      origin: clientUrl,
+      credentials: true,
+    })
+  );
+
+  // Create HTTP server
+  const httpServer = createServer(app);
+
+  // Initialize Socket.IO
+  const io: ChatIo = new Server(httpServer, {
+    cors: {
+      origin: clientUrl,
+      methods: ['GET', 'POST'],
+      credentials: true,
+    },
+  });
+
+  // Reject sockets that don't present a valid ID token in the handshake
+  io.use(createAuthMiddleware(tokenVerifier));
+
+  const { presence, eventLog, recentMessageIds } = state;
+
+  // Set once the adapter is connected and the server accepts connections
+  let adapterReady = false;
+  // Set once shutdown starts; new sockets are sent elsewhere from then on
+  let draining = false;
+  // Acknowledgements and cleanup that shutdown waits for
+  const inFlight = createInFlightTracker();
+
+  const metrics = createServerMetrics({
+    connectedSockets: () => io.of('/').sockets.size,
+    // The adapter also has a room per socket, named after the socket ID
+    rooms: () =>
+      Array.from(io.of('/').adapter.rooms.keys()).filter((room) =>
+        room.startsWith(conversationRoom(''))
+      ).length,
+  });
+
+  // Record a room event in the log and broadcast it with its sequence number.
+  // Pass `exceptSocketId` to leave out the socket that caused it. Resolves to
+  // the event as broadcast, or null if it couldn't be.
+  const broadcast = async <E extends RoomEventName>(
+    conversationId: string,
+    event: E,
+    payload: RoomEventMap[E],
+    exceptSocketId?: string
+  ): Promise<Sequenced<RoomEventMap[E]> | null> => {
+    try {
+      const sequenced = await eventLog.append(conversationId, event, payload);
+      const room = io.to(conversationRoom(conversationId));
+      const target = exceptSocketId ? room.except(exceptSocketId) : room;
+
+      // TS can't narrow the emit overloads through `E` on its own
+      target.emit(
+        event,
+        ...([sequenced] as Parameters<ServerToClientEvents[E]>)
+      );
+      return sequenced;
+    } catch (error) {
+      logger.error('Error broadcasting room event', {
+        event,
+        conversationId,
+        error,
+      });
+      return null;
+    }
+  };
+
+  // Broadcast a typing change to the room, and to the other participants'
+  // sockets outside it so their conversation list can show it too. Typing
+  // stays out of the room event log, where it would push the events clients
+  // need to catch up out of the replay window.
+  const broadcastTyping = async (
+    event:
+      | typeof SocketEvents.USER_TYPING
+      | typeof SocketEvents.USER_STOP_TYPING,
+    conversationId: string,
+    typingUserId: string,
+    exceptSocketId?: string
+  ) => {
+    const rooms = [conversationRoom(conversationId)];
+    try {
+      const participants =
+        (await conversationDirectory.getParticipants(conversationId)) ?? [];
+      participants
+        .filter((participantId) => participantId !== typingUserId)
+        .forEach((participantId) => rooms.push(userRoom(participantId)));
+    } catch (error) {
+      // The room itself still hears about it
+      logger.error('Error sending typing to participants', {
+        event,
+        conversationId,
+        error,
+      });
+    }
+
+    const target = io.to(rooms);
+    (exceptSocketId ? target.except(exceptSocketId) : target).emit(event, {
+      conversationId,
+      userId: typingUserId,
+    });
+  };
+
+  // Announce users when their first socket opens and after their last one has
+  // been closed for a grace period
+  const presenceTracker = createPresenceTracker(
+    presence,
+    (userId, status) => {
+      logger.info(`User is ${status}`, { userId });
+      if (status === 'offline') rateLimiter.reset(userId);
+      io.emit(
+        status === 'online'
+          ? SocketEvents.USER_ONLINE
+          : SocketEvents.USER_OFFLINE,
+        { userId }
+      );
+    },
+    presenceGraceMs
+  );
+
+  // Typing state expires if the client stops refreshing it
+  const typingTracker = createTypingTracker((conversationId, userId) => {
+    logger.debug('Typing expired', { userId, conversationId });
+    broadcastTyping(SocketEvents.USER_STOP_TYPING, conversationId, userId);
+  }, typingExpiryMs);
+
+  // Socket connection handlers
+  io.on('connection', (socket) => {
+    // Identity verified by the auth middleware
+    const userId = socket.data.user.uid;
+    const log = logger.child({ socketId: socket.id, userId });
+
+    // Connections still arriving while we shut down go to another instance
+    if (draining) {
+      log.info('Turning away socket while draining');
+      socket.emit(SocketEvents.SERVER_DRAINING);
+      socket.disconnect(true);
+      return;
+    }
+
+    log.info('Socket connected');
+    // Reaches the user wherever they are, whichever rooms they joined
+    socket.join(userRoom(userId));
+
+    // Track this socket, announcing the user if it's their first
+    presenceTracker
+      .connect(userId, socket.id)
+      .catch((error) => log.error('Error tracking socket', { error }));
+
+    // Count every event in and out, and time acknowledgements. Shutdown waits
+    // for acknowledgements still owed to clients.
+    socket.use((packet, next) => {
+      const [event] = packet;
+      metrics.recordEventIn(event);
+
+      const ack = packet[packet.length - 1];
+      if (typeof ack === 'function' && ACKNOWLEDGED_EVENTS.has(event)) {
+        const receivedAt = process.hrtime.bigint();
+        const done = inFlight.start();
+        packet[packet.length - 1] = (...args: unknown[]) => {
+          const elapsed = Number(process.hrtime.bigint() - receivedAt) / 1e9;
+          metrics.observeAckLatency(event, elapsed);
+          done();
+          ack(...args);
+        };
+      }
+      next();
+    });
+    socket.onAnyOutgoing((event) => metrics.recordEventOut(event));
+
+    // Drop events over the user's rate limit before any handler sees them, and
+    // disconnect sockets that keep flooding regardless
+    socket.use(([event, ...args], next) => {
+      const result = rateLimiter.consume(userId, event);
+      if (result.allowed) {
+        next();
+        return;
+      }
+
+      log.warn('Rate limited event', {
+        event,
+        retryAfterMs: result.retryAfterMs,
+      });
+      metrics.recordRateLimited(event);
+      socket.emit(SocketEvents.ERROR, {
+        code: SocketErrorCodes.RATE_LIMITED,
+        message: `Too many ${event} events, slow down`,
+        event,
+        retryAfterMs: result.retryAfterMs,
+      });
+
+      // Events sent with an acknowledgement still get an answer
+      const ack = args[args.length - 1];
+      if (typeof ack === 'function') {
+        ack({ ok: false, error: SocketErrorCodes.RATE_LIMITED });
+      }
+
+      if (result.abusive) {
+        log.warn('Disconnecting socket for flooding');
+        socket.disconnect(true);
+      }
+    });
+
+    // Reject malformed payloads with an error event instead of handling them
+    const parse = <E extends ValidatedClientEvent>(
+      event: E,
+      payload: unknown
+    ): ClientEventPayload<E> | null => {
+      const result = parseClientPayload(event, payload);
+      if (result.success) return result.data;
+
+      log.warn('Invalid payload', { event, error: result.error.message });
+      socket.emit(SocketEvents.ERROR, result.error);
+      return null;
+    };
+
+    // Conversation-scoped events are only accepted from sockets in the room
+    const inConversation = (conversationId: string): boolean => {
+      if (socket.rooms.has(conversationRoom(conversationId))) {
+        return true;
+      }
+
+      socket.emit(SocketEvents.ERROR, {
+        code: SocketErrorCodes.NOT_IN_CONVERSATION,
+        message: 'Join the conversation before sending events to it',
+        conversationId,
+      });
+      return false;
+    };
+
+    // Clear this user's typing state and tell the rest of the room
+    const stopTyping = (conversationId: string) => {
+      if (!typingTracker.stop(conversationId, userId)) return;
+
+      broadcastTyping(
+        SocketEvents.USER_STOP_TYPING,
+        conversationId,
+        userId,
+        socket.id
+      );
+    };
+
+    // Send the current presence snapshot to a client that just connected
+    socket.on(SocketEvents.GET_ONLINE_USERS, async (ack) => {
+      if (typeof ack !== 'function') return;
+
+      try {
+        ack({ ok: true, userIds: await presence.getOnlineUsers() });
+      } catch (error) {
+        log.error('Error loading online users', { error });
+        ack({ ok: false, error: 'presence_unavailable' });
+      }
+    });
+
+    // Handle joining a conversation room
+    socket.on(SocketEvents.JOIN_CONVERSATION, async (payload, ack) => {
+      const respond = typeof ack === 'function' ? ack : () => {};
+      const joinRequest = parse(SocketEvents.JOIN_CONVERSATION, payload);
+      if (!joinRequest) {
+        respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+        return;
+      }
+
+      const { conversationId, resumeFrom } = joinRequest;
+
+      try {
+        if (
+          !(await isParticipant(conversationDirectory, conversationId, userId))
+        ) {
+          log.warn('Denied access to conversation', { conversationId });
+          respond({ ok: false, error: 'not_a_participant' });
+          return;
+        }
+
+        await socket.join(conversationRoom(conversationId));
+        log.info('Joined conversation', { conversationId });
+
+        const [epoch, seq] = await Promise.all([
+          eventLog.getEpoch(),
+          eventLog.latestSeq(conversationId),
+        ]);
+        if (!resumeFrom) {
+          respond({ ok: true, epoch, seq });
+          return;
+        }
+
+        // Replay what the client missed while disconnected. Events sent between
+        // joining the room and this point may arrive twice; clients drop
+        // sequence numbers they have already seen.
+        const missed =
+          resumeFrom.epoch === epoch
+            ? await eventLog.since(conversationId, resumeFrom.seq)
+            : null;
+
+        if (missed) {
+          log.info('Replaying missed events', {
+            conversationId,
+            count: missed.length,
+          });
+          respond({ ok: true, epoch, seq, missed });
+        } else {
+          respond({ ok: true, epoch, seq, refetch: true });
+        }
+      } catch (error) {
+        log.error('Error joining conversation', { conversationId, error });
+        respond({ ok: false, error: 'join_failed' });
+      }
+    });
+
+    // Handle leaving a conversation room
+    socket.on(SocketEvents.LEAVE_CONVERSATION, async (payload) => {
+      const leaveRequest = parse(SocketEvents.LEAVE_CONVERSATION, payload);
+      if (!leaveRequest) return;
+
+      const { conversationId } = leaveRequest;
+      stopTyping(conversationId);
+      await socket.leave(conversationRoom(conversationId));
+      log.info('Left conversation', { conversationId });
+    });
+
+    // Handle new messages
+    socket.on(SocketEvents.NEW_MESSAGE, async (payload, ack) => {
+      const respond = typeof ack === 'function' ? ack : () => {};
+      const message = parse(SocketEvents.NEW_MESSAGE, payload);
+      if (!message) {
+        respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+        return;
+      }
+      if (!inConversation(message.conversationId)) {
+        respond({ ok: false, error: SocketErrorCodes.NOT_IN_CONVERSATION });
+        return;
+      }
+
+      try {
+        // A retry of a message we already relayed: acknowledge it again only
+        if (!(await recentMessageIds.claim(message.id))) {
+          log.info('Duplicate message', { messageId: message.id });
+          respond({ ok: true, duplicate: true });
+          return;
+        }
+      } catch (error) {
+        log.error('Error checking message', { messageId: message.id, error });
+        respond({ ok: false, error: 'message_failed' });
+        return;
+      }
+
+      log.info('New message', {
+        messageId: message.id,
+        conversationId: message.conversationId,
+      });
+      // Sending a message ends the sender's typing state
+      stopTyping(message.conversationId);
+      // Broadcast message to the conversation, stamped with the verified sender
+      const relayed = await broadcast(
+        message.conversationId,
+        SocketEvents.NEW_MESSAGE,
+        {
+          ...message,
+          sender: userId,
+          timestamp: new Date().toISOString(),
+          status: 'sent',
+        }
+      );
+      if (!relayed) {
+        // Nobody received it, so a retry has to be relayed again
+        await recentMessageIds.release(message.id).catch((error) =>
+          log.error('Error releasing message', {
+            messageId: message.id,
+            error,
+          })
+        );
+        respond({ ok: false, error: 'message_failed' });
+        return;
+      }
+      respond({ ok: true });
+    });
+
+    // Handle messages the server validates and persists itself
+    socket.on(SocketEvents.SEND_MESSAGE, async (payload, ack) => {
+      const respond = typeof ack === 'function' ? ack : () => {};
+      const request = parse(SocketEvents.SEND_MESSAGE, payload);
+      if (!request) {
+        respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+        return;
+      }
+
+      const { conversationId } = request;
+
+      try {
+        // Checked against the directory rather than the socket's rooms, so
+        // messages queued while offline can be sent before the room is joined
+        if (
+          !(await isParticipant(conversationDirectory, conversationId, userId))
+        ) {
+          log.warn('Denied message to conversation', { conversationId });
+          respond({ ok: false, error: 'not_a_participant' });
+          return;
+        }
+
+        const result = await messageStore.saveMessage({
+          ...request,
+          sender: userId,
+        });
+        if ('error' in result) {
+          log.warn('Rejected message', {
+            messageId: request.id,
+            error: result.error,
+          });
+          respond({ ok: false, error: result.error });
+          return;
+        }
+
+        const { message, created } = result;
+
+        // A retry of a message we already stored: acknowledge it again only
+        if (!created) {
+          log.info('Duplicate message', { messageId: message.id });
+          respond({ ok: true, duplicate: true, message });
+          return;
+        }
+
+        log.info('Stored message', { messageId: message.id, conversationId });
+        stopTyping(conversationId);
+        await broadcast(conversationId, SocketEvents.MESSAGES_UPDATED, {
+          conversationId,
+          messages: [message],
+        });
+        respond({ ok: true, message });
+      } catch (error) {
+        log.error('Error storing message', { messageId: request.id, error });
+        respond({ ok: false, error: 'message_failed' });
+      }
+    });
+
+    // Handle edits the server validates and persists itself
+    socket.on(SocketEvents.EDIT_MESSAGE, async (payload, ack) => {
+      const respond = typeof ack === 'function' ? ack : () => {};
+      const request = parse(SocketEvents.EDIT_MESSAGE, payload);
+      if (!request) {
+        respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+        return;
+      }
+      if (!inConversation(request.conversationId)) {
+        respond({ ok: false, error: SocketErrorCodes.NOT_IN_CONVERSATION });
+        return;
+      }
+
+      const { messageId, conversationId } = request;
+
+      try {
+        const result = await messageStore.editMessage({
+          ...request,
+          editor: userId,
+        });
+        if ('error' in result) {
+          log.warn('Rejected edit', { messageId, error: result.error });
+          respond({ ok: false, error: result.error });
+          return;
+        }
+
+        const { message } = result;
+        log.info('Edited message', { messageId, conversationId });
+        if (message.editedAt) {
+          await broadcast(conversationId, SocketEvents.MESSAGE_EDITED, {
+            messageId,
+            conversationId,
+            content: message.content,
+            editedAt: message.editedAt,
+            userId,
+          });
+        }
+        respond({ ok: true, message });
+      } catch (error) {
+        log.error('Error editing message', { messageId, error });
+        respond({ ok: false, error: 'edit_failed' });
+      }
+    });
+
+    // Edits and deletions the client already stored are checked against the
+    // stored message: only its sender can change it, and only within
+    // `windowMs` of sending it if given. Resolves to the reason to reject the
+    // change, or null. A store that doesn't hold the messages clients write
+    // can't check those, so they are relayed and receiving clients check them.
+    const checkRelayedChange = async (
+      conversationId: string,
+      messageId: string,
+      windowMs?: number
+    ): Promise<string | null> => {
+      const message = await messageStore.getMessage(conversationId, messageId);
+      if (!message) {
+        return messageStore.holdsClientMessages ? 'message_not_found' : null;
+      }
+      if (message.sender !== userId) return 'not_message_sender';
+      if (
+        windowMs !== undefined &&
+        Date.now() - new Date(message.timestamp).getTime() > windowMs
+      ) {
+        return 'delete_window_expired';
+      }
+      return null;
+    };
+
+    // Handle edits the client already stored, relayed to the room stamped
+    // with the verified editor
+    socket.on(SocketEvents.MESSAGE_EDITED, async (payload, ack) => {
+      const respond = typeof ack === 'function' ? ack : () => {};
+      const edit = parse(SocketEvents.MESSAGE_EDITED, payload);
+      if (!edit) {
+        respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+        return;
+      }
+      if (!inConversation(edit.conversationId)) {
+        respond({ ok: false, error: SocketErrorCodes.NOT_IN_CONVERSATION });
+        return;
+      }
+
+      const { messageId, conversationId } = edit;
+
+      let rejection: string | null;
+      try {
+        rejection = await checkRelayedChange(conversationId, messageId);
+      } catch (error) {
+        log.error('Error checking edit', { messageId, error });
+        respond({ ok: false, error: 'relay_failed' });
+        return;
+      }
+      if (rejection) {
+        log.warn('Rejected edit', { messageId, error: rejection });
+        respond({ ok: false, error: rejection });
+        return;
+      }
+
+      log.info('Message edited', { messageId, conversationId });
+      const relayed = await broadcast(
+        edit.conversationId,
+        SocketEvents.MESSAGE_EDITED,
+        { ...edit, userId }
+      );
+      respond(relayed ? { ok: true } : { ok: false, error: 'relay_failed' });
+    });
+
+    // Handle deletions the server validates and persists itself
+    socket.on(SocketEvents.DELETE_MESSAGE, async (payload, ack) => {
+      const respond = typeof ack === 'function' ? ack : () => {};
+      const request = parse(SocketEvents.DELETE_MESSAGE, payload);
+      if (!request) {
+        respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+        return;
+      }
+      if (!inConversation(request.conversationId)) {
+        respond({ ok: false, error: SocketErrorCodes.NOT_IN_CONVERSATION });
+        return;
+      }
+
+      const { messageId, conversationId } = request;
+
+      try {
+        const result = await messageStore.deleteMessage({
+          ...request,
+          requester: userId,
+          windowMs: deleteWindowMs,
+        });
+        if ('error' in result) {
+          log.warn('Rejected deletion', { messageId, error: result.error });
+          respond({ ok: false, error: result.error });
+          return;
+        }
+
+        const { message } = result;
+        log.info('Deleted message', { messageId, conversationId });
+        await broadcast(conversationId, SocketEvents.MESSAGE_DELETED, {
+          messageId,
+          conversationId,
+          deletedAt: message.deletedAt!,
+          userId,
+        });
+        respond({ ok: true, message });
+      } catch (error) {
+        log.error('Error deleting message', { messageId, error });
+        respond({ ok: false, error: 'delete_failed' });
+      }
+    });
+
+    // Handle deletions the client already stored, relayed to the room
+    // stamped with the verified requester
+    socket.on(SocketEvents.MESSAGE_DELETED, async (payload, ack) => {
+      const respond = typeof ack === 'function' ? ack : () => {};
+      const deletion = parse(SocketEvents.MESSAGE_DELETED, payload);
+      if (!deletion) {
+        respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+        return;
+      }
+      if (!inConversation(deletion.conversationId)) {
+        respond({ ok: false, error: SocketErrorCodes.NOT_IN_CONVERSATION });
+        return;
+      }
+
+      const { messageId, conversationId } = deletion;
+
+      // Deleting for everyone is also only allowed within the window
+      let rejection: string | null;
+      try {
+        rejection = await checkRelayedChange(
+          conversationId,
+          messageId,
+          deleteWindowMs
+        );
+      } catch (error) {
+        log.error('Error checking deletion', { messageId, error });
+        respond({ ok: false, error: 'relay_failed' });
+        return;
+      }
+      if (rejection) {
+        log.warn('Rejected deletion', { messageId, error: rejection });
+        respond({ ok: false, error: rejection });
+        return;
+      }
+
+      log.info('Message deleted', { messageId, conversationId });
+      // Stamped with the server's clock, so clients can check the window
+      // against a time the deleting client didn't choose
+      const relayed = await broadcast(
+        conversationId,
+        SocketEvents.MESSAGE_DELETED,
+        { ...deletion, userId, deletedAt: new Date().toISOString() }
+      );
+      respond(relayed ? { ok: true } : { ok: false, error: 'relay_failed' });
+    });
+
+    // Handle reactions the server persists itself
+    socket.on(SocketEvents.UPDATE_REACTION, async (payload, ack) => {
+      const respond = typeof ack === 'function' ? ack : () => {};
+      const request = parse(SocketEvents.UPDATE_REACTION, payload);
+      if (!request) {
+        respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+        return;
+      }
+      if (!inConversation(request.conversationId)) {
+        respond({ ok: false, error: SocketErrorCodes.NOT_IN_CONVERSATION });
+        return;
+      }
+
+      const { messageId, conversationId } = request;
+
+      try {
+        const result = await messageStore.updateReaction({
+          ...request,
+          userId,
+        });
+        if ('error' in result) {
+          log.warn('Rejected reaction', { messageId, error: result.error });
+          respond({ ok: false, error: result.error });
+          return;
+        }
+
+        await broadcast(conversationId, SocketEvents.REACTION_UPDATED, {
+          ...request,
+          userId,
+        });
+        respond({ ok: true, message: result.message });
+      } catch (error) {
+        log.error('Error updating reaction', { messageId, error });
+        respond({ ok: false, error: 'reaction_failed' });
+      }
+    });
+
+    // Handle reactions the client already stored, relayed to the room
+    // stamped with the verified user
+    socket.on(SocketEvents.REACTION_UPDATED, async (payload, ack) => {
+      const respond = typeof ack === 'function' ? ack : () => {};
+      const update = parse(SocketEvents.REACTION_UPDATED, payload);
+      if (!update) {
+        respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+        return;
+      }
+      if (!inConversation(update.conversationId)) {
+        respond({ ok: false, error: SocketErrorCodes.NOT_IN_CONVERSATION });
+        return;
+      }
+
+      const relayed = await broadcast(
+        update.conversationId,
+        SocketEvents.REACTION_UPDATED,
+        { ...update, userId }
+      );
+      respond(relayed ? { ok: true } : { ok: false, error: 'relay_failed' });
+    });
+
+    // Handle typing indicator
+    socket.on(SocketEvents.USER_TYPING, (payload) => {
+      const typing = parse(SocketEvents.USER_TYPING, payload);
+      if (!typing || !inConversation(typing.conversationId)) return;
+
+      const { conversationId } = typing;
+
+      // Clients refresh USER_TYPING while typing; only broadcast the transition
+      if (!typingTracker.start(conversationId, userId)) return;
+
+      log.debug('Started typing', { conversationId });
+      // Broadcast typing status to the other participants
+      broadcastTyping(
+        SocketEvents.USER_TYPING,
+        conversationId,
+        userId,
+        socket.id
+      );
+    });
+
+    // Handle stop typing indicator
+    socket.on(SocketEvents.USER_STOP_TYPING, (payload) => {
+      const typing = parse(SocketEvents.USER_STOP_TYPING, payload);
+      if (!typing || !inConversation(typing.conversationId)) return;
+
+      log.debug('Stopped typing', { conversationId: typing.conversationId });
+      // Broadcast stop typing status to the other participants
+      stopTyping(typing.conversationId);
+    });
+
+    // Record a receipt and broadcast it to the conversation, stamped with the
+    // recipient and the time we received it
+    const receiveReceipt = (
+      event:
+        | typeof SocketEvents.MESSAGE_READ
+        | typeof SocketEvents.MESSAGE_DELIVERED,
+      payload: unknown
+    ) => {
+      const receipt = parse(event, payload);
+      if (!receipt || !inConversation(receipt.conversationId)) return;
+
+      const { messageId, conversationId } = receipt;
+      const status = event === SocketEvents.MESSAGE_READ ? 'read' : 'delivered';
+      const timestamp = new Date().toISOString();
+
+      log.debug(`Message ${status}`, { messageId, conversationId });
+      const done = inFlight.start();
+      messageStore
+        .saveReceipt({ conversationId, messageId, userId, status, timestamp })
+        .catch((error) =>
+          log.error('Error storing receipt', { messageId, status, error })
+        )
+        .finally(done);
+
+      broadcast(conversationId, event, {
+        messageId,
+        conversationId,
+        userId,
+        timestamp,
+      });
+    };
+
+    // Handle message read
+    socket.on(SocketEvents.MESSAGE_READ, (payload) =>
+      receiveReceipt(SocketEvents.MESSAGE_READ, payload)
+    );
+
+    // Handle message delivered
+    socket.on(SocketEvents.MESSAGE_DELIVERED, (payload) =>
+      receiveReceipt(SocketEvents.MESSAGE_DELIVERED, payload)
+    );
+
+    // Handle disconnect
+    socket.on('disconnect', (reason) => {
+      log.info('Socket disconnected', { reason });
+
+      // Nobody keeps typing after their socket is gone
+      typingTracker.stopAll(userId).forEach((conversationId) => {
+        broadcastTyping(SocketEvents.USER_STOP_TYPING, conversationId, userId);
+      });
+
+      // The user only goes offline once their other tabs and devices are gone
+      const done = inFlight.start();
+      presenceTracker
+        .disconnect(userId, socket.id)
+        .catch((error) => log.error('Error untracking socket', { error }))
+        .finally(done);
+    });
+  });
+
+  // Basic health check route
+  app.get('/health', (req: express.Request, res: express.Response) => {
+    res
+      .status(200)
+      .json({ status: 'OK', message: 'Socket.IO server is running' });
+  });
+
+  // Ready once the adapter is connected and shared state and message storage
+  // can be reached; load balancers should only route traffic to ready instances
+  const READINESS_TIMEOUT_MS = 3000;
+  const readinessChecks: Record<string, () => Promise<void>> = {
+    adapter: async () => {
+      if (!adapterReady) throw new Error('Adapter is not connected');
+    },
+    draining: async () => {
+      if (draining) throw new Error('Server is shutting down');
+    },
+    state: state.checkReady,
+    storage: messageStore.checkReady,
+  };
+
+  app.get(
+    '/health/ready',
+    async (req: express.Request, res: express.Response) => {
+      const results = await Promise.all(
+        Object.entries(readinessChecks).map(async ([name, check]) => {
+          try {
+            await Promise.race([
+              check(),
+              new Promise((_, reject) =>
+                setTimeout(
+                  () => reject(new Error('Timed out')),
+                  READINESS_TIMEOUT_MS
+                ).unref()
+              ),
+            ]);
+            return [name, 'ok'];
+          } catch (error) {
+            return [name, (error as Error).message];
+          }
+        })
+      );
+
+      const ready = results.every(([, result]) => result === 'ok');
+      res.status(ready ? 200 : 503).json({
+        status: ready ? 'ready' : 'not_ready',
+        checks: Object.fromEntries(results),
+      });
+    }
+  );
+
+  // Prometheus metrics
+  app.get('/metrics', async (req: express.Request, res: express.Response) => {
+    res.set('Content-Type', metrics.contentType);
+    res.send(await metrics.render());
+  });
+
+  let shutdownPromise: Promise<void> | null = null;
+
+  const drain = async (reason: string) => {
+    draining = true;
+
+    const deadline = Date.now() + shutdownTimeoutMs;
+    logger.info('Draining before shutdown', {
+      reason,
+      sockets: io.of('/').sockets.size,
+      inFlight: inFlight.size(),
+      timeoutMs: shutdownTimeoutMs,
+    });
+
+    // Stop accepting connections, then send this instance's sockets elsewhere;
+    // the other instances' sockets stay where they are
+    httpServer.close();
+    io.local.emit(SocketEvents.SERVER_DRAINING);
+
+    if (!(await settlesWithin(inFlight.whenIdle(), deadline - Date.now()))) {
+      logger.warn('Shutdown timed out with work in flight', {
+        inFlight: inFlight.size(),
+      });
+    }
+
+    // Disconnect whoever didn't leave on their own, and give their presence
+    // cleanup whatever time is left
+    await new Promise<void>((resolve) => io.close(() => resolve()));
+    await settlesWithin(
+      inFlight.whenIdle(),
+      Math.max(0, deadline - Date.now())
+    );
+    presenceTracker.stop();
+
+    logger.info('Shutdown complete');
+  };
+
+  return {
+    app,
+    httpServer,
+    io,
+
+    listen: async (port = 0) => {
+      await state.attach(io);
+      adapterReady = true;
+
+      await new Promise<void>((resolve, reject) => {
+        httpServer.once('error', reject);
+        httpServer.listen(port, () => {
+          httpServer.off('error', reject);
+          resolve();
+        });
+      });
+      return (httpServer.address() as AddressInfo).port;
+    },
+
+    shutdown: (reason = 'shutdown') => {
+      if (!shutdownPromise) shutdownPromise = drain(reason);
+      return shutdownPromise;
+    },
+  };
+};
@@ -0,0 +1,140 @@
+import { logger } from './logger';
+
+/**
+ * Resolves the participants of a conversation so the server can check room
+ * membership without trusting the client
+ */
+export interface ConversationDirectory {
+  getParticipants: (conversationId: string) => Promise<string[] | null>;
+}
+
+const PARTICIPANT_CACHE_TTL = 60 * 1000;
+
+/**
+ * Directory backed by the `conversations` collection in Firestore. Lookups are
+ * cached briefly since every join and room-scoped event needs them.
+ */
+export const createFirestoreConversationDirectory =
+  (): ConversationDirectory => {
+    const cache = new Map<
+      string,
+      { participants: string[] | null; expiresAt: number }
+    >();
+
+    const getFirestore = async () => {
+      const { initializeApp, getApps, applicationDefault } = await import(
+        'firebase-admin/app'
+      );
+      const { getFirestore } = await import('firebase-admin/firestore');
+
+      const app =
+        getApps()[0] ||
+        initializeApp({
+          credential: applicationDefault(),
+          projectId: process.env.FIREBASE_PROJECT_ID,
+        });
+      return getFirestore(app);
+    };
+
+    return {
+      getParticipants: async (conversationId) => {
+        const cached = cache.get(conversationId);
+        if (cached && cached.expiresAt > Date.now()) {
+          return cached.participants;
+        }
+
+        const db = await getFirestore();
+        const snapshot = await db
+          .collection('conversations')
+          .doc(conversationId)
+          .get();
+        const participants = snapshot.exists
+          ? (snapshot.get('participants') as string[]) || []
+          : null;
+
+        cache.set(conversationId, {
+          participants,
+          expiresAt: Date.now() + PARTICIPANT_CACHE_TTL,
+        });
+        return participants;
+      },
+    };
+  };
+
+/**
+ * In-process directory for tests and local development without Firestore
+ */
+export const createInMemoryConversationDirectory = (
+  initial: Record<string, string[]> = {}
+) => {
+  const conversations = new Map(Object.entries(initial));
+
+  return {
+    getParticipants: async (conversationId: string) =>
+      conversations.get(conversationId) ?? null,
+    setParticipants: (conversationId: string, participants: string[]) => {
+      conversations.set(conversationId, participants);
+    },
+  };
+};
+
+/**
+ * Conversations from SOCKET_CONVERSATIONS, a JSON object of conversation ID to
+ * participant IDs
+ */
+const loadConversationsFromEnv = (): Record<string, string[]> => {
+  const conversations = process.env.SOCKET_CONVERSATIONS;
+  if (!conversations) return {};
+
+  try {
+    const parsed: unknown = JSON.parse(conversations);
+    const valid =
+      !!parsed &&
+      typeof parsed === 'object' &&
+      !Array.isArray(parsed) &&
+      Object.values(parsed).every(
+        (participants) =>
+          Array.isArray(participants) &&
+          participants.every((id) => typeof id === 'string')
+      );
+    if (!valid) throw new Error('Expected participant ID lists');
+    return parsed as Record<string, string[]>;
+  } catch (error) {
+    logger.error('Ignoring invalid SOCKET_CONVERSATIONS', { error });
+    return {};
+  }
+};
+
+/**
+ * Pick a directory from the environment: in-memory when
+ * SOCKET_CONVERSATION_DIRECTORY=memory, seeded from SOCKET_CONVERSATIONS,
+ * Firestore otherwise.
+ */
+export const createConversationDirectoryFromEnv = (): ConversationDirectory =>
+  process.env.SOCKET_CONVERSATION_DIRECTORY === 'memory'
+    ? createInMemoryConversationDirectory(loadConversationsFromEnv())
+    : createFirestoreConversationDirectory();
+
+/**
+ * Name of the Socket.IO room for a conversation
+ */
+export const conversationRoom = (conversationId: string): string =>
+  `conversation:${conversationId}`;
+
+/**
+ * Name of the Socket.IO room holding every socket of a user, for events that
+ * reach them outside the conversation rooms they joined
+ */
+export const userRoom = (userId: string): string => `user:${userId}`;
+
+/**
+ * Check whether a user is a participant of a conversation
+ */
+export const isParticipant = async (
+  directory: ConversationDirectory,
+  conversationId: string,
+  userId: string
+): Promise<boolean> => {
+  const participants = await directory.getParticipants(conversationId);
+  return !!participants && participants.includes(userId);
+};
@@ -0,0 +1,134 @@
+import { SocketEvents } from '../shared/socketContract';
+import {
+  createRedisRoomEventLog,
+  createRoomEventLog,
+  RoomEventLog,
+} from './eventLog';
+import { createInProcessRedisClient } from './redis';
+
+const receipt = (userId: string, conversationId = 'conv-1') => ({
+  messageId: 'msg-1',
+  conversationId,
+  userId,
+  timestamp: '2025-01-01T10:00:00.000Z',
+});
+
+// Append `count` read receipts to conv-1
+const appendEvents = async (log: RoomEventLog, count: number) => {
+  for (let i = 1; i <= count; i++) {
+    await log.append('conv-1', SocketEvents.MESSAGE_READ, receipt(`user-${i}`));
+  }
+};
+
+describe.each([
+  ['in-memory', (maxEvents: number) => createRoomEventLog(maxEvents)],
+  [
+    'Redis',
+    (maxEvents: number) =>
+      createRedisRoomEventLog(createInProcessRedisClient(), maxEvents),
+  ],
+])('%s room event log', (_name, createLog) => {
+  test('should number events per room', async () => {
+    const log = createLog(10);
+
+    const first = await log.append(
+      'conv-1',
+      SocketEvents.MESSAGE_READ,
+      receipt('alice')
+    );
+    const other = await log.append(
+      'conv-2',
+      SocketEvents.MESSAGE_READ,
+      receipt('bob', 'conv-2')
+    );
+    const second = await log.append(
+      'conv-1',
+      SocketEvents.MESSAGE_DELIVERED,
+      receipt('alice')
+    );
+
+    expect([first.seq, second.seq, other.seq]).toEqual([1, 2, 1]);
+    expect(await log.latestSeq('conv-1')).toBe(2);
+    expect(await log.latestSeq('conv-3')).toBe(0);
+  });
+
+  test('should return the events after a sequence number in order', async () => {
+    const log = createLog(10);
+    await appendEvents(log, 4);
+
+    const missed = await log.since('conv-1', 2);
+
+    expect(missed?.map((entry) => entry.payload.seq)).toEqual([3, 4]);
+    expect(missed?.[0]).toEqual({
+      event: SocketEvents.MESSAGE_READ,
+      payload: { ...receipt('user-3'), seq: 3 },
+    });
+    expect(await log.since('conv-1', 4)).toEqual([]);
+  });
+
+  test('should return null once the missed events were dropped', async () => {
+    const log = createLog(3);
+    await appendEvents(log, 5);
+
+    // Events 3 to 5 are kept, so resuming from 2 still works but 1 doesn't
+    expect((await log.since('conv-1', 2))?.length).toBe(3);
+    expect(await log.since('conv-1', 1)).toBeNull();
+  });
+
+  test('should return null for a sequence number from the future', async () => {
+    const log = createLog(10);
+    await appendEvents(log, 2);
+
+    expect(await log.since('conv-1', 3)).toBeNull();
+    expect(await log.since('conv-2', 1)).toBeNull();
+  });
+});
+
+describe('event log epochs', () => {
+  test('should start a new epoch whenever an in-memory log starts over', async () => {
+    const first = createRoomEventLog();
+    const restarted = createRoomEventLog();
+
+    expect(await first.getEpoch()).not.toEqual(await restarted.getEpoch());
+  });
+
+  test('should share the epoch between instances using the same Redis', async () => {
+    const client = createInProcessRedisClient();
+    const instanceA = createRedisRoomEventLog(client);
+    const instanceB = createRedisRoomEventLog(client);
+    const otherRedis = createRedisRoomEventLog(createInProcessRedisClient());
+
+    const epoch = await instanceA.getEpoch();
+
+    expect(await instanceB.getEpoch()).toBe(epoch);
+    expect(await otherRedis.getEpoch()).not.toBe(epoch);
+  });
+
+  test('should start a new epoch once Redis has lost the log', async () => {
+    const client = createInProcessRedisClient();
+    const log = createRedisRoomEventLog(client);
+    const epoch = await log.getEpoch();
+
+    // As after a Redis restart without persistence
+    await client.del('chat:events:epoch');
+
+    expect(await log.getEpoch()).not.toBe(epoch);
+  });
+
+  test('should number events from one counter across instances', async () => {
+    const client = createInProcessRedisClient();
+    const instanceA = createRedisRoomEventLog(client);
+    const instanceB = createRedisRoomEventLog(client);
+
+    await instanceA.append(
+      'conv-1',
+      SocketEvents.MESSAGE_READ,
+      receipt('alice')
+    );
+    await instanceB.append('conv-1', SocketEvents.MESSAGE_READ, receipt('bob'));
+
+    expect(
+      (await instanceA.since('conv-1', 0))?.map((entry) => entry.payload.seq)
+    ).toEqual([1, 2]);
+  });
+});
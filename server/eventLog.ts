@@ -0,0 +1,142 @@
+import { randomUUID } from 'crypto';
+import {
+  RoomEvent,
+  RoomEventMap,
+  RoomEventName,
+  Sequenced,
+} from '../shared/socketContract';
+import { RedisStateClient } from './redis';
+
+/**
+ * Bounded log of the events broadcast to each conversation room, numbered so
+ * a reconnecting client can ask for everything after the last one it saw
+ */
+export interface RoomEventLog {
+  // Changes whenever the log starts over, since sequence numbers do too
+  getEpoch: () => Promise<string>;
+  append: <E extends RoomEventName>(
+    conversationId: string,
+    event: E,
+    payload: RoomEventMap[E]
+  ) => Promise<Sequenced<RoomEventMap[E]>>;
+  latestSeq: (conversationId: string) => Promise<number>;
+  // Events after `seq`, or null if some of them were already dropped
+  since: (conversationId: string, seq: number) => Promise<RoomEvent[] | null>;
+}
+
+export const EVENT_LOG_SIZE = 200;
+
+const sequence = <E extends RoomEventName>(
+  event: E,
+  payload: RoomEventMap[E],
+  seq: number
+) => {
+  const sequenced = { ...payload, seq };
+  return { sequenced, entry: { event, payload: sequenced } as RoomEvent };
+};
+
+// Events after `seq` from a window of the log, or null if the window no
+// longer reaches back that far
+const eventsSince = (
+  events: RoomEvent[],
+  latest: number,
+  seq: number
+): RoomEvent[] | null => {
+  // A sequence from the future can't be resumed from either
+  if (seq > latest) return null;
+
+  const oldest = events.length
+    ? Math.min(...events.map((entry) => entry.payload.seq))
+    : latest + 1;
+  if (seq < oldest - 1) return null;
+
+  return events
+    .filter((entry) => entry.payload.seq > seq)
+    .sort((a, b) => a.payload.seq - b.payload.seq);
+};
+
+export const createRoomEventLog = (
+  maxEvents: number = EVENT_LOG_SIZE
+): RoomEventLog => {
+  const epoch = randomUUID();
+  const rooms = new Map<string, { seq: number; events: RoomEvent[] }>();
+
+  return {
+    getEpoch: async () => epoch,
+
+    append: async (conversationId, event, payload) => {
+      const room = rooms.get(conversationId) ?? { seq: 0, events: [] };
+      rooms.set(conversationId, room);
+      room.seq += 1;
+
+      const { sequenced, entry } = sequence(event, payload, room.seq);
+      room.events.push(entry);
+      if (room.events.length > maxEvents) {
+        room.events.shift();
+      }
+
+      return sequenced;
+    },
+
+    latestSeq: async (conversationId) => rooms.get(conversationId)?.seq ?? 0,
+
+    since: async (conversationId, seq) => {
+      const room = rooms.get(conversationId);
+      return eventsSince(room?.events ?? [], room?.seq ?? 0, seq);
+    },
+  };
+};
+
+const EPOCH_KEY = 'chat:events:epoch';
+const seqKey = (conversationId: string) => `chat:events:${conversationId}:seq`;
+const eventsKey = (conversationId: string) =>
+  `chat:events:${conversationId}:log`;
+
+/**
+ * Event log kept in Redis so every server instance numbers a room's events
+ * from the same counter
+ */
+export const createRedisRoomEventLog = (
+  client: RedisStateClient,
+  maxEvents: number = EVENT_LOG_SIZE
+): RoomEventLog => {
+  // Read every time rather than once per process: if Redis loses the log,
+  // the counters start over and so must the epoch
+  const getEpoch = async () => {
+    const current = await client.get(EPOCH_KEY);
+    if (current) return current;
+
+    // The first instance to find it missing picks the epoch for all of them
+    await client.set(EPOCH_KEY, randomUUID(), { onlyIfMissing: true });
+    const epoch = await client.get(EPOCH_KEY);
+    if (!epoch) throw new Error('Event log epoch is missing');
+    return epoch;
+  };
+
+  return {
+    getEpoch,
+
+    append: async (conversationId, event, payload) => {
+      const seq = await client.incr(seqKey(conversationId));
+      const { sequenced, entry } = sequence(event, payload, seq);
+
+      await client.rPush(eventsKey(conversationId), JSON.stringify(entry));
+      await client.lKeepLast(eventsKey(conversationId), maxEvents);
+
+      return sequenced;
+    },
+
+    latestSeq: async (conversationId) =>
+      Number((await client.get(seqKey(conversationId))) ?? 0),
+
+    since: async (conversationId, seq) => {
+      const [latest, stored] = await Promise.all([
+        client.get(seqKey(conversationId)),
+        client.lRange(eventsKey(conversationId), 0, -1),
+      ]);
+      const events = stored.map((entry) => JSON.parse(entry) as RoomEvent);
+
+      return eventsSince(events, Number(latest ?? 0), seq);
+    },
+  };
+};
@@ -0,0 +1,12 @@
+import type { Config } from 'jest';
+
+// Integration tests run the real server on an ephemeral port, so they need
+// Node rather than the browser environment the app's tests use
+const config: Config = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>'],
+  testPathIgnorePatterns: ['/node_modules/', '/dist/'],
+};
+
+export default config;
@@ -0,0 +1,76 @@
+/**
+ * Structured logging: one JSON object per line with a level, timestamp and
+ * message, plus whatever fields identify what happened
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+  // A logger that adds `fields` to every line
+  child: (fields: LogFields) => Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+// Errors don't serialize to JSON on their own
+const serialize = (value: unknown): unknown =>
+  value instanceof Error
+    ? { name: value.name, message: value.message, stack: value.stack }
+    : value;
+
+// `minLevel` is checked on every line, so it can follow configuration that
+// is loaded after the logger is created
+export const createLogger = (
+  minLevel: () => LogLevel = () => 'info',
+  baseFields: LogFields = {},
+  write: (line: string) => void = (line) => process.stdout.write(`${line}\n`)
+): Logger => {
+  const log =
+    (level: LogLevel) =>
+    (message: string, fields: LogFields = {}) => {
+      if (LEVELS[level] < LEVELS[minLevel()]) return;
+
+      const entry: LogFields = {
+        level,
+        time: new Date().toISOString(),
+        msg: message,
+      };
+      for (const [key, value] of Object.entries({
+        ...baseFields,
+        ...fields,
+      })) {
+        entry[key] = serialize(value);
+      }
+      write(JSON.stringify(entry));
+    };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (fields) =>
+      createLogger(minLevel, { ...baseFields, ...fields }, write),
+  };
+};
+
+const isLogLevel = (level: string | undefined): level is LogLevel =>
+  !!level && level in LEVELS;
+
+/**
+ * Shared logger, at the level from LOG_LEVEL (default: info)
+ */
+export const logger = createLogger(() => {
+  const level = process.env.LOG_LEVEL;
+  return isLogLevel(level) ? level : 'info';
+});
@@ -0,0 +1,62 @@
+import { RedisStateClient } from './redis';
+
+/**
+ * Remembers recently relayed message IDs so a client retrying a message whose
+ * acknowledgement was lost doesn't broadcast it twice
+ */
+export interface RecentMessageIds {
+  // Resolves to true the first time an ID is seen, false for a repeat
+  claim: (messageId: string) => Promise<boolean>;
+  // Forget a claimed ID, so a retry of a message that couldn't be relayed is
+  // relayed rather than acknowledged as a duplicate
+  release: (messageId: string) => Promise<void>;
+}
+
+export const MESSAGE_ID_TTL_MS = 10 * 60 * 1000;
+export const MESSAGE_ID_MAX_ENTRIES = 10000;
+
+export const createRecentMessageIds = (
+  ttlMs: number = MESSAGE_ID_TTL_MS,
+  maxEntries: number = MESSAGE_ID_MAX_ENTRIES
+): RecentMessageIds => {
+  // messageId -> time it was first seen, oldest first
+  const seen = new Map<string, number>();
+
+  const prune = (now: number) => {
+    for (const [messageId, seenAt] of Array.from(seen.entries())) {
+      if (seen.size <= maxEntries && now - seenAt < ttlMs) break;
+      seen.delete(messageId);
+    }
+  };
+
+  return {
+    claim: async (messageId) => {
+      const now = Date.now();
+      prune(now);
+
+      if (seen.has(messageId)) return false;
+
+      seen.set(messageId, now);
+      return true;
+    },
+    release: async (messageId) => {
+      seen.delete(messageId);
+    },
+  };
+};
+
+/**
+ * Message IDs kept in Redis, so a retry that reaches another server instance
+ * is still recognised
+ */
+export const createRedisRecentMessageIds = (
+  client: RedisStateClient,
+  ttlMs: number = MESSAGE_ID_TTL_MS
+): RecentMessageIds => ({
+  claim: (messageId) =>
+    client.set(`chat:messages:${messageId}`, '1', {
+      onlyIfMissing: true,
+      expireMs: ttlMs,
+    }),
+  release: (messageId) => client.del(`chat:messages:${messageId}`),
+});
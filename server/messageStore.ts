@@ -0,0 +1,774 @@
+import { constants } from 'fs';
+import { access, mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import {
+  applyReaction,
+  isReadUpTo,
+  MessagePayload,
+  MessageReply,
+  MessageVersion,
+  ReceiptStatus,
+  recordReceipt,
+  UpdateReactionPayload,
+} from '../shared/socketContract';
+import { ConversationDirectory } from './conversations';
+
+/**
+ * A message as the server accepts it: content from the client, sender from
+ * the verified socket identity
+ */
+export interface NewMessage {
+  id: string;
+  conversationId: string;
+  sender: string;
+  content: string;
+  // The message this one replies to, as quoted by the client
+  replyTo?: MessageReply;
+}
+
+// The stored message, or why it couldn't be stored
+export type SaveMessageResult =
+  | {
+      message: MessagePayload;
+      // False when a message with the same ID was already stored
+      created: boolean;
+    }
+  // The ID belongs to a message from another sender or conversation
+  | { error: 'message_id_taken' };
+
+/**
+ * New content for a message, from the verified editor
+ */
+export interface MessageEdit {
+  conversationId: string;
+  messageId: string;
+  editor: string;
+  content: string;
+}
+
+// The edited message, or why it couldn't be edited
+export type EditMessageResult =
+  | { message: MessagePayload }
+  | { error: 'message_not_found' | 'not_message_sender' };
+
+/**
+ * A request to delete a message for everyone, from the verified requester
+ */
+export interface MessageDeletion {
+  conversationId: string;
+  messageId: string;
+  requester: string;
+  // How long after sending the sender may still delete
+  windowMs: number;
+}
+
+// The tombstone left in place of the message, or why it couldn't be deleted
+export type DeleteMessageResult =
+  | { message: MessagePayload }
+  | {
+      error:
+        | 'message_not_found'
+        | 'not_message_sender'
+        | 'delete_window_expired';
+    };
+
+/**
+ * A reaction added or removed by the verified user
+ */
+export interface MessageReactionUpdate extends UpdateReactionPayload {
+  userId: string;
+}
+
+// The message with its reactions after the update
+export type UpdateReactionResult =
+  | { message: MessagePayload }
+  | { error: 'message_not_found' };
+
+/**
+ * A recipient's delivery or read receipt, stamped by the server
+ */
+export interface MessageReceiptUpdate {
+  conversationId: string;
+  messageId: string;
+  userId: string;
+  status: ReceiptStatus;
+  timestamp: string;
+}
+
+/**
+ * Where the server writes messages when it is the single writer. Saving a
+ * message also updates the conversation's `lastMessage` and the participants'
+ * `userConversations` records.
+ */
+export interface MessageStore {
+  saveMessage: (message: NewMessage) => Promise<SaveMessageResult>;
+  // Whether the messages clients write themselves end up here too. If not, a
+  // message `getMessage` can't find may still exist.
+  holdsClientMessages: boolean;
+  // The stored message, or null if there is none with that ID in the
+  // conversation
+  getMessage: (
+    conversationId: string,
+    messageId: string
+  ) => Promise<MessagePayload | null>;
+  // Record a receipt on the message, keeping the first delivery and read time
+  // per recipient. A read receipt also covers the earlier messages from other
+  // senders. Receipts for unknown messages are ignored.
+  saveReceipt: (receipt: MessageReceiptUpdate) => Promise<void>;
+  // Replace a message's content, keeping the previous version in its history
+  // and updating the conversation's `lastMessage` if it is the latest message.
+  // Only the sender can edit a message.
+  editMessage: (edit: MessageEdit) => Promise<EditMessageResult>;
+  // Replace a message with a tombstone: its content is cleared, `deletedAt`
+  // is set and its edit history is dropped. The conversation's `lastMessage`
+  // falls back to the newest message that isn't deleted.
+  deleteMessage: (deletion: MessageDeletion) => Promise<DeleteMessageResult>;
+  // Add or remove one user's reaction without touching anyone else's.
+  // Deleted messages can't be reacted to.
+  updateReaction: (
+    update: MessageReactionUpdate
+  ) => Promise<UpdateReactionResult>;
+  // Rejects if messages can't be stored right now
+  checkReady: () => Promise<void>;
+}
+
+const AI_ASSISTANT_ID = 'ai-assistant';
+
+// How many earlier messages a read receipt marks read in Firestore, so one
+// receipt can't turn into an unbounded write
+const READ_RECEIPT_BACKFILL = 100;
+
+// How far back to look for the newest message that isn't deleted
+const LAST_MESSAGE_LOOKBACK = 20;
+
+// The first doc that isn't a tombstone; docs come newest first
+const findVisible = <D extends { get: (field: string) => unknown }>(
+  docs: D[]
+): D | undefined => docs.find((doc) => !doc.get('deletedAt'));
+
+const toMessagePayload = (
+  id: string,
+  conversationId: string,
+  data: FirebaseFirestore.DocumentData
+): MessagePayload => ({
+  id,
+  conversationId,
+  sender: data.sender,
+  content: data.content,
+  timestamp: data.timestamp.toDate().toISOString(),
+  status: data.status,
+  ...(data.receipts ? { receipts: data.receipts } : {}),
+  ...(data.editedAt ? { editedAt: data.editedAt } : {}),
+  ...(data.deletedAt ? { deletedAt: data.deletedAt } : {}),
+  ...(data.reactions ? { reactions: data.reactions } : {}),
+  ...(data.replyTo ? { replyTo: data.replyTo } : {}),
+  ...(data.thread ? { thread: data.thread } : {}),
+});
+
+/**
+ * Store backed by Firestore through the Admin SDK, writing the same documents
+ * the client writes when it persists messages itself
+ */
+export const createFirestoreMessageStore = (): MessageStore => {
+  const getFirestore = async () => {
+    const { initializeApp, getApps, applicationDefault } = await import(
+      'firebase-admin/app'
+    );
+    const firestore = await import('firebase-admin/firestore');
+
+    const app =
+      getApps()[0] ||
+      initializeApp({
+        credential: applicationDefault(),
+        projectId: process.env.FIREBASE_PROJECT_ID,
+      });
+    return { db: firestore.getFirestore(app), firestore };
+  };
+
+  return {
+    saveMessage: async ({ id, conversationId, sender, content, replyTo }) => {
+      const { db, firestore } = await getFirestore();
+      const { FieldValue, Timestamp } = firestore;
+
+      const conversationRef = db
+        .collection('conversations')
+        .doc(conversationId);
+      const messageRef = conversationRef.collection('messages').doc(id);
+
+      return db.runTransaction(async (transaction) => {
+        const [existing, conversation] = await Promise.all([
+          transaction.get(messageRef),
+          transaction.get(conversationRef),
+        ]);
+
+        // A retry of a message that was already written. The ID is scoped to
+        // the conversation by the path, so only the sender can differ.
+        if (existing.exists) {
+          if (existing.get('sender') !== sender) {
+            return { error: 'message_id_taken' as const };
+          }
+          return {
+            message: toMessagePayload(id, conversationId, existing.data()!),
+            created: false,
+          };
+        }
+
+        if (!conversation.exists) {
+          throw new Error(`Conversation ${conversationId} not found`);
+        }
+
+        const timestamp = Timestamp.now();
+        transaction.set(messageRef, {
+          conversationId,
+          sender,
+          content,
+          timestamp,
+          status: 'sent',
+          isAI: false,
+          ...(replyTo ? { replyTo } : {}),
+        });
+        transaction.update(conversationRef, {
+          lastMessage: { content, timestamp, sender },
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+
+        // The AI assistant has no userConversations record of its own
+        const participants = (
+          (conversation.get('participants') as string[]) || []
+        ).filter((participantId) => participantId !== AI_ASSISTANT_ID);
+
+        participants.forEach((participantId) => {
+          transaction.set(
+            db
+              .collection('userConversations')
+              .doc(`${participantId}_${conversationId}`),
+            {
+              updatedAt: FieldValue.serverTimestamp(),
+              // Sending a message means the sender has read up to it
+              ...(participantId === sender
+                ? { lastReadTimestamp: FieldValue.serverTimestamp() }
+                : {}),
+            },
+            { merge: true }
+          );
+        });
+
+        return {
+          message: {
+            id,
+            conversationId,
+            sender,
+            content,
+            timestamp: timestamp.toDate().toISOString(),
+            status: 'sent' as const,
+            ...(replyTo ? { replyTo } : {}),
+          },
+          created: true,
+        };
+      });
+    },
+
+    // Clients that write to Firestore themselves write the same documents
+    holdsClientMessages: true,
+
+    getMessage: async (conversationId, messageId) => {
+      const { db } = await getFirestore();
+      const snapshot = await db
+        .collection('conversations')
+        .doc(conversationId)
+        .collection('messages')
+        .doc(messageId)
+        .get();
+
+      const data = snapshot.data();
+      return data ? toMessagePayload(messageId, conversationId, data) : null;
+    },
+
+    saveReceipt: async ({
+      conversationId,
+      messageId,
+      userId,
+      status,
+      timestamp,
+    }) => {
+      const { db } = await getFirestore();
+      const messagesRef = db
+        .collection('conversations')
+        .doc(conversationId)
+        .collection('messages');
+      const messageRef = messagesRef.doc(messageId);
+
+      await db.runTransaction(async (transaction) => {
+        const message = await transaction.get(messageRef);
+        if (!message.exists) return;
+
+        const messages =
+          status === 'read'
+            ? (
+                await transaction.get(
+                  messagesRef
+                    .where('timestamp', '<=', message.get('timestamp'))
+                    .orderBy('timestamp', 'desc')
+                    .limit(READ_RECEIPT_BACKFILL)
+                )
+              ).docs.filter((doc) => doc.get('sender') !== userId)
+            : [message];
+
+        messages.forEach((doc) => {
+          const receipts = doc.get('receipts');
+          const updated = recordReceipt(receipts, userId, status, timestamp);
+          if (updated === receipts) return;
+
+          // Only this recipient's entry, so concurrent receipts don't collide
+          transaction.update(doc.ref, {
+            [`receipts.${userId}`]: updated[userId],
+          });
+        });
+      });
+    },
+
+    editMessage: async ({ conversationId, messageId, editor, content }) => {
+      const { db } = await getFirestore();
+      const conversationRef = db
+        .collection('conversations')
+        .doc(conversationId);
+      const messagesRef = conversationRef.collection('messages');
+      const messageRef = messagesRef.doc(messageId);
+
+      return db.runTransaction(async (transaction) => {
+        const [existing, recent] = await Promise.all([
+          transaction.get(messageRef),
+          transaction.get(
+            messagesRef
+              .orderBy('timestamp', 'desc')
+              .limit(LAST_MESSAGE_LOOKBACK)
+          ),
+        ]);
+
+        const data = existing.data();
+        if (!data || data.deletedAt) {
+          return { error: 'message_not_found' as const };
+        }
+        if (data.sender !== editor) {
+          return { error: 'not_message_sender' as const };
+        }
+
+        const message = toMessagePayload(messageId, conversationId, data);
+        if (content === data.content) return { message };
+
+        const editedAt = new Date().toISOString();
+        const previous: MessageVersion = {
+          content: data.content,
+          timestamp: data.editedAt ?? message.timestamp,
+        };
+        transaction.set(messageRef.collection('history').doc(), previous);
+        transaction.update(messageRef, { content, editedAt });
+
+        if (findVisible(recent.docs)?.id === messageId) {
+          transaction.update(conversationRef, {
+            'lastMessage.content': content,
+          });
+        }
+
+        return { message: { ...message, content, editedAt } };
+      });
+    },
+
+    deleteMessage: async ({
+      conversationId,
+      messageId,
+      requester,
+      windowMs,
+    }) => {
+      const { db, firestore } = await getFirestore();
+      const { FieldValue } = firestore;
+      const conversationRef = db
+        .collection('conversations')
+        .doc(conversationId);
+      const messagesRef = conversationRef.collection('messages');
+      const messageRef = messagesRef.doc(messageId);
+
+      return db.runTransaction(async (transaction) => {
+        const [existing, recent, history] = await Promise.all([
+          transaction.get(messageRef),
+          transaction.get(
+            messagesRef
+              .orderBy('timestamp', 'desc')
+              .limit(LAST_MESSAGE_LOOKBACK)
+          ),
+          transaction.get(messageRef.collection('history')),
+        ]);
+
+        const data = existing.data();
+        if (!data) return { error: 'message_not_found' as const };
+        if (data.sender !== requester) {
+          return { error: 'not_message_sender' as const };
+        }
+
+        const message = toMessagePayload(messageId, conversationId, data);
+        // A retry of a deletion that already happened
+        if (data.deletedAt) return { message };
+        if (Date.now() - data.timestamp.toMillis() > windowMs) {
+          return { error: 'delete_window_expired' as const };
+        }
+
+        const deletedAt = new Date().toISOString();
+        transaction.update(messageRef, { content: '', deletedAt });
+        // Earlier versions would still show what was deleted
+        history.docs.forEach((version) => transaction.delete(version.ref));
+
+        // Fall back to the newest message that is still there
+        if (findVisible(recent.docs)?.id === messageId) {
+          const previous = findVisible(
+            recent.docs.filter((doc) => doc.id !== messageId)
+          );
+          transaction.update(conversationRef, {
+            lastMessage: previous
+              ? {
+                  content: previous.get('content'),
+                  timestamp: previous.get('timestamp'),
+                  sender: previous.get('sender'),
+                }
+              : FieldValue.delete(),
+          });
+        }
+
+        return { message: { ...message, content: '', deletedAt } };
+      });
+    },
+
+    updateReaction: async ({
+      conversationId,
+      messageId,
+      userId,
+      emoji,
+      action,
+    }) => {
+      const { db, firestore } = await getFirestore();
+      const { FieldPath, FieldValue } = firestore;
+      const messageRef = db
+        .collection('conversations')
+        .doc(conversationId)
+        .collection('messages')
+        .doc(messageId);
+
+      return db.runTransaction(async (transaction) => {
+        const existing = await transaction.get(messageRef);
+        const data = existing.data();
+        if (!data || data.deletedAt) {
+          return { error: 'message_not_found' as const };
+        }
+
+        const message = toMessagePayload(messageId, conversationId, data);
+        const reactions = applyReaction(message.reactions, {
+          userId,
+          emoji,
+          action,
+        });
+
+        // A field path, since emoji can contain characters that dotted paths
+        // don't allow. An emoji nobody reacts with any more is dropped rather
+        // than left as an empty list.
+        transaction.update(
+          messageRef,
+          new FieldPath('reactions', emoji),
+          reactions[emoji] ?? FieldValue.delete()
+        );
+
+        return { message: { ...message, reactions } };
+      });
+    },
+
+    checkReady: async () => {
+      const { db } = await getFirestore();
+      await db.collection('conversations').limit(1).get();
+    },
+  };
+};
+
+interface MessageFile {
+  messages: Record<string, MessagePayload>;
+  // Previous versions of edited messages, oldest first
+  history?: Record<string, MessageVersion[]>;
+  conversations: Record<
+    string,
+    { lastMessage?: { content: string; timestamp: string; sender: string } }
+  >;
+  userConversations: Record<
+    string,
+    { updatedAt: string; lastReadTimestamp?: string }
+  >;
+}
+
+/**
+ * Store that keeps everything in a JSON file, for local development without
+ * Firestore. Participants come from the conversation directory.
+ */
+export const createFileMessageStore = (
+  filePath: string,
+  directory: ConversationDirectory
+): MessageStore => {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<MessageFile> => {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8')) as MessageFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return { messages: {}, conversations: {}, userConversations: {} };
+    }
+  };
+
+  const save = async (data: MessageFile) => {
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, JSON.stringify(data, null, 2));
+  };
+
+  // Point the conversation's `lastMessage` at its newest message that isn't
+  // deleted
+  const updateLastMessage = (data: MessageFile, conversationId: string) => {
+    const latest = Object.values(data.messages)
+      .filter((m) => m.conversationId === conversationId && !m.deletedAt)
+      .sort((a, b) =>
+        String(b.timestamp).localeCompare(String(a.timestamp))
+      )[0];
+
+    data.conversations[conversationId] = latest
+      ? {
+          lastMessage: {
+            content: latest.content,
+            timestamp: String(latest.timestamp),
+            sender: latest.sender,
+          },
+        }
+      : {};
+  };
+
+  const saveMessage = async ({
+    id,
+    conversationId,
+    sender,
+    content,
+    replyTo,
+  }: NewMessage): Promise<SaveMessageResult> => {
+    const data = await load();
+    const existing = data.messages[id];
+    if (existing) {
+      if (
+        existing.conversationId !== conversationId ||
+        existing.sender !== sender
+      ) {
+        return { error: 'message_id_taken' };
+      }
+      return { message: existing, created: false };
+    }
+
+    const participants = await directory.getParticipants(conversationId);
+    if (!participants) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    const timestamp = new Date().toISOString();
+    const message: MessagePayload = {
+      id,
+      conversationId,
+      sender,
+      content,
+      timestamp,
+      status: 'sent',
+      ...(replyTo ? { replyTo } : {}),
+    };
+
+    data.messages[id] = message;
+    data.conversations[conversationId] = {
+      lastMessage: { content, timestamp, sender },
+    };
+    participants
+      .filter((participantId) => participantId !== AI_ASSISTANT_ID)
+      .forEach((participantId) => {
+        const key = `${participantId}_${conversationId}`;
+        data.userConversations[key] = {
+          ...data.userConversations[key],
+          updatedAt: timestamp,
+          ...(participantId === sender ? { lastReadTimestamp: timestamp } : {}),
+        };
+      });
+
+    await save(data);
+    return { message, created: true };
+  };
+
+  const saveReceipt = async ({
+    conversationId,
+    messageId,
+    userId,
+    status,
+    timestamp,
+  }: MessageReceiptUpdate) => {
+    const data = await load();
+    const target = data.messages[messageId];
+    if (!target) return;
+
+    const messages =
+      status === 'read'
+        ? Object.values(data.messages).filter(
+            (message) =>
+              message.conversationId === conversationId &&
+              isReadUpTo(message, target, userId)
+          )
+        : [target];
+
+    let changed = false;
+    messages.forEach((message) => {
+      const receipts = recordReceipt(
+        message.receipts,
+        userId,
+        status,
+        timestamp
+      );
+      if (receipts === message.receipts) return;
+
+      data.messages[message.id] = { ...message, receipts };
+      changed = true;
+    });
+
+    if (changed) await save(data);
+  };
+
+  const editMessage = async ({
+    conversationId,
+    messageId,
+    editor,
+    content,
+  }: MessageEdit): Promise<EditMessageResult> => {
+    const data = await load();
+    const message = data.messages[messageId];
+    if (
+      !message ||
+      message.conversationId !== conversationId ||
+      message.deletedAt
+    ) {
+      return { error: 'message_not_found' };
+    }
+    if (message.sender !== editor) return { error: 'not_message_sender' };
+    if (content === message.content) return { message };
+
+    const editedAt = new Date().toISOString();
+    const history = data.history ?? {};
+    history[messageId] = [
+      ...(history[messageId] ?? []),
+      {
+        content: message.content,
+        timestamp: message.editedAt ?? String(message.timestamp),
+      },
+    ];
+
+    const edited = { ...message, content, editedAt };
+    data.messages[messageId] = edited;
+    data.history = history;
+    updateLastMessage(data, conversationId);
+
+    await save(data);
+    return { message: edited };
+  };
+
+  const deleteMessage = async ({
+    conversationId,
+    messageId,
+    requester,
+    windowMs,
+  }: MessageDeletion): Promise<DeleteMessageResult> => {
+    const data = await load();
+    const message = data.messages[messageId];
+    if (!message || message.conversationId !== conversationId) {
+      return { error: 'message_not_found' };
+    }
+    if (message.sender !== requester) return { error: 'not_message_sender' };
+    // A retry of a deletion that already happened
+    if (message.deletedAt) return { message };
+    if (Date.now() - new Date(message.timestamp).getTime() > windowMs) {
+      return { error: 'delete_window_expired' };
+    }
+
+    const deleted = {
+      ...message,
+      content: '',
+      deletedAt: new Date().toISOString(),
+    };
+    data.messages[messageId] = deleted;
+    delete data.history?.[messageId];
+    updateLastMessage(data, conversationId);
+
+    await save(data);
+    return { message: deleted };
+  };
+
+  const updateReaction = async ({
+    conversationId,
+    messageId,
+    ...update
+  }: MessageReactionUpdate): Promise<UpdateReactionResult> => {
+    const data = await load();
+    const message = data.messages[messageId];
+    if (
+      !message ||
+      message.conversationId !== conversationId ||
+      message.deletedAt
+    ) {
+      return { error: 'message_not_found' };
+    }
+
+    const reacted = {
+      ...message,
+      reactions: applyReaction(message.reactions, update),
+    };
+    data.messages[messageId] = reacted;
+
+    await save(data);
+    return { message: reacted };
+  };
+
+  // Writes are applied one at a time so they can't overwrite each other, and
+  // reads wait for the writes before them
+  const enqueue = <R>(task: () => Promise<R>): Promise<R> => {
+    const result = queue.then(task);
+    queue = result.catch(() => {});
+    return result;
+  };
+
+  return {
+    // Only messages sent through the server are kept here
+    holdsClientMessages: false,
+
+    saveMessage: (message) => enqueue(() => saveMessage(message)),
+    getMessage: (conversationId, messageId) =>
+      enqueue(async () => {
+        const message = (await load()).messages[messageId];
+        return message?.conversationId === conversationId ? message : null;
+      }),
+    saveReceipt: (receipt) => enqueue(() => saveReceipt(receipt)),
+    editMessage: (edit) => enqueue(() => editMessage(edit)),
+    deleteMessage: (deletion) => enqueue(() => deleteMessage(deletion)),
+    updateReaction: (update) => enqueue(() => updateReaction(update)),
+
+    checkReady: async () => {
+      await mkdir(dirname(filePath), { recursive: true });
+      await access(dirname(filePath), constants.W_OK);
+    },
+  };
+};
+
+/**
+ * Pick a store from the environment: a JSON file when
+ * SOCKET_MESSAGE_STORE=file (at SOCKET_MESSAGE_STORE_PATH), Firestore
+ * otherwise.
+ */
+export const createMessageStoreFromEnv = (
+  directory: ConversationDirectory
+): MessageStore =>
+  process.env.SOCKET_MESSAGE_STORE === 'file'
+    ? createFileMessageStore(
+        process.env.SOCKET_MESSAGE_STORE_PATH || 'data/messages.json',
+        directory
+      )
+    : createFirestoreMessageStore();
@@ -0,0 +1,88 @@
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from 'prom-client';
+
+/**
+ * Prometheus metrics for the socket server, rendered by `GET /metrics`
+ */
+export interface ServerMetrics {
+  recordEventIn: (event: string) => void;
+  recordEventOut: (event: string) => void;
+  // Time between receiving an event and acknowledging it
+  observeAckLatency: (event: string, seconds: number) => void;
+  recordRateLimited: (event: string) => void;
+  contentType: string;
+  render: () => Promise<string>;
+}
+
+// Sizes read from the server whenever metrics are scraped
+export interface ServerGauges {
+  connectedSockets: () => number;
+  rooms: () => number;
+}
+
+export const createServerMetrics = (gauges: ServerGauges): ServerMetrics => {
+  const registry = new Registry();
+  collectDefaultMetrics({ register: registry });
+
+  new Gauge({
+    name: 'chat_connected_sockets',
+    help: 'Sockets connected to this instance',
+    registers: [registry],
+    collect() {
+      this.set(gauges.connectedSockets());
+    },
+  });
+
+  new Gauge({
+    name: 'chat_rooms',
+    help: 'Conversation rooms with at least one socket on this instance',
+    registers: [registry],
+    collect() {
+      this.set(gauges.rooms());
+    },
+  });
+
+  const eventsIn = new Counter({
+    name: 'chat_events_received_total',
+    help: 'Events received from clients, by event name',
+    labelNames: ['event'],
+    registers: [registry],
+  });
+
+  const eventsOut = new Counter({
+    name: 'chat_events_sent_total',
+    help: 'Events sent to sockets, by event name',
+    labelNames: ['event'],
+    registers: [registry],
+  });
+
+  const ackLatency = new Histogram({
+    name: 'chat_ack_latency_seconds',
+    help: 'Time from receiving an event to acknowledging it',
+    labelNames: ['event'],
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+    registers: [registry],
+  });
+
+  const rateLimited = new Counter({
+    name: 'chat_rate_limited_total',
+    help: 'Events dropped for exceeding a rate limit, by event name',
+    labelNames: ['event'],
+    registers: [registry],
+  });
+
+  return {
+    recordEventIn: (event) => eventsIn.inc({ event }),
+    recordEventOut: (event) => eventsOut.inc({ event }),
+    observeAckLatency: (event, seconds) =>
+      ackLatency.observe({ event }, seconds),
+    recordRateLimited: (event) => rateLimited.inc({ event }),
+    contentType: registry.contentType,
+    render: () => registry.metrics(),
+  };
+};
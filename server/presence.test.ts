@@ -0,0 +1,98 @@
+import {
+  createPresenceTracker,
+  createRedisPresenceStore,
+  PresenceStore,
+} from './presence';
+import { createInProcessRedisClient, RedisStateClient } from './redis';
+
+const INSTANCE_TTL_MS = 50;
+
+const pause = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Redis presence store', () => {
+  let client: RedisStateClient;
+  let instanceA: PresenceStore;
+  let instanceB: PresenceStore;
+
+  beforeEach(() => {
+    client = createInProcessRedisClient();
+    instanceA = createRedisPresenceStore(client, 'instance-a', INSTANCE_TTL_MS);
+    instanceB = createRedisPresenceStore(client, 'instance-b', INSTANCE_TTL_MS);
+  });
+
+  test('should count the sockets of a user across instances', async () => {
+    expect(await instanceA.addSocket('alice', 'socket-1')).toBe(1);
+    expect(await instanceB.addSocket('alice', 'socket-1')).toBe(2);
+
+    expect(await instanceA.removeSocket('alice', 'socket-1')).toBe(1);
+    expect(await instanceB.countSockets('alice')).toBe(1);
+  });
+
+  test('should only report an online change once across instances', async () => {
+    expect(await instanceA.setOnline('alice')).toBe(true);
+    expect(await instanceB.setOnline('alice')).toBe(false);
+    expect(await instanceB.getOnlineUsers()).toEqual(['alice']);
+
+    expect(await instanceB.setOffline('alice')).toBe(true);
+    expect(await instanceA.setOffline('alice')).toBe(false);
+  });
+
+  test('should clear the sockets of an instance that stopped', async () => {
+    // Arrange - Alice is only on A, Bob is on both
+    await instanceA.addSocket('alice', 'socket-1');
+    await instanceA.addSocket('bob', 'socket-2');
+    await instanceB.addSocket('bob', 'socket-3');
+    await instanceA.setOnline('alice');
+    await instanceA.setOnline('bob');
+
+    // Act - A crashes and stops sweeping
+    await pause(INSTANCE_TTL_MS * 2);
+    const wentOffline = await instanceB.sweep();
+
+    // Assert
+    expect(wentOffline).toEqual(['alice']);
+    expect(await instanceB.getOnlineUsers()).toEqual(['bob']);
+    expect(await instanceB.countSockets('alice')).toBe(0);
+    expect(await instanceB.countSockets('bob')).toBe(1);
+    // Nothing is left to clear a second time
+    expect(await instanceB.sweep()).toEqual([]);
+  });
+
+  test('should keep the sockets of instances that keep sweeping', async () => {
+    await instanceA.addSocket('alice', 'socket-1');
+    await instanceA.setOnline('alice');
+
+    for (let i = 0; i < 4; i++) {
+      await pause(INSTANCE_TTL_MS / 2);
+      await instanceA.sweep();
+    }
+
+    expect(await instanceB.sweep()).toEqual([]);
+    expect(await instanceB.countSockets('alice')).toBe(1);
+  });
+});
+
+describe('presence tracker', () => {
+  test('should announce users whose instance stopped as offline', async () => {
+    const client = createInProcessRedisClient();
+    const stopped = createRedisPresenceStore(
+      client,
+      'stopped',
+      INSTANCE_TTL_MS
+    );
+    const changes: [string, string][] = [];
+    const tracker = createPresenceTracker(
+      createRedisPresenceStore(client, 'running', INSTANCE_TTL_MS),
+      (userId, status) => changes.push([userId, status]),
+      10,
+      INSTANCE_TTL_MS / 2
+    );
+    await stopped.addSocket('alice', 'socket-1');
+    await stopped.setOnline('alice');
+
+    await pause(INSTANCE_TTL_MS * 3);
+    tracker.stop();
+
+    expect(changes).toEqual([['alice', 'offline']]);
+  });
+});
@@ -0,0 +1,219 @@
+import { randomUUID } from 'crypto';
+import { RedisStateClient } from './redis';
+import { logger } from './logger';
+
+/**
+ * Which sockets each user has open and which users are announced as online,
+ * shared by every server instance. A user stays online for a short grace
+ * period after their last socket closes, so the two can briefly differ.
+ */
+export interface PresenceStore {
+  // Resolve to the number of sockets the user has open afterwards
+  addSocket: (userId: string, socketId: string) => Promise<number>;
+  removeSocket: (userId: string, socketId: string) => Promise<number>;
+  countSockets: (userId: string) => Promise<number>;
+  // Resolve to true if the user's online status changed
+  setOnline: (userId: string) => Promise<boolean>;
+  setOffline: (userId: string) => Promise<boolean>;
+  getOnlineUsers: () => Promise<string[]>;
+  // Called periodically: show that this instance is still alive and forget
+  // the sockets of instances that stopped. Resolves to the users taken
+  // offline because their last socket was on a stopped instance.
+  sweep: () => Promise<string[]>;
+}
+
+export const createInMemoryPresenceStore = (): PresenceStore => {
+  const sockets = new Map<string, Set<string>>(); // userId -> socketIds
+  const onlineUsers = new Set<string>();
+
+  return {
+    addSocket: async (userId, socketId) => {
+      const userSockets = sockets.get(userId) ?? new Set<string>();
+      sockets.set(userId, userSockets);
+      userSockets.add(socketId);
+      return userSockets.size;
+    },
+    removeSocket: async (userId, socketId) => {
+      const userSockets = sockets.get(userId);
+      userSockets?.delete(socketId);
+      if (userSockets?.size === 0) sockets.delete(userId);
+      return userSockets?.size ?? 0;
+    },
+    countSockets: async (userId) => sockets.get(userId)?.size ?? 0,
+    setOnline: async (userId) => {
+      if (onlineUsers.has(userId)) return false;
+      onlineUsers.add(userId);
+      return true;
+    },
+    setOffline: async (userId) => onlineUsers.delete(userId),
+    getOnlineUsers: async () => Array.from(onlineUsers),
+    // Nothing outlives this instance's own memory
+    sweep: async () => [],
+  };
+};
+
+// An instance counts as stopped once it hasn't swept for this long
+export const PRESENCE_INSTANCE_TTL_MS = 30 * 1000;
+
+const ONLINE_USERS_KEY = 'chat:presence:online';
+const INSTANCES_KEY = 'chat:presence:instances';
+const socketsKey = (userId: string) => `chat:presence:${userId}:sockets`;
+const aliveKey = (instanceId: string) =>
+  `chat:presence:instance:${instanceId}:alive`;
+// Users with sockets on the instance, so its sockets can be found once it
+// has stopped
+const instanceUsersKey = (instanceId: string) =>
+  `chat:presence:instance:${instanceId}:users`;
+
+/**
+ * Presence shared through Redis. Each socket is stored under the instance it
+ * is connected to, and each instance keeps a key alive while it runs, so the
+ * sockets of an instance that crashed are cleared by the others.
+ */
+export const createRedisPresenceStore = (
+  client: RedisStateClient,
+  instanceId: string = randomUUID(),
+  instanceTtlMs: number = PRESENCE_INSTANCE_TTL_MS
+): PresenceStore => {
+  const member = (socketId: string) => `${instanceId}/${socketId}`;
+
+  const keepAlive = async () => {
+    await client.set(aliveKey(instanceId), '1', { expireMs: instanceTtlMs });
+    await client.sAdd(INSTANCES_KEY, instanceId);
+  };
+
+  // Remove a stopped instance's sockets, resolving to the users that have
+  // none left and were online until now
+  const clearInstance = async (stoppedId: string): Promise<string[]> => {
+    const wentOffline: string[] = [];
+
+    for (const userId of await client.sMembers(instanceUsersKey(stoppedId))) {
+      const stale = (await client.sMembers(socketsKey(userId))).filter(
+        (socket) => socket.startsWith(`${stoppedId}/`)
+      );
+      for (const socket of stale) {
+        await client.sRem(socketsKey(userId), socket);
+      }
+
+      if (
+        (await client.sCard(socketsKey(userId))) === 0 &&
+        (await client.sRem(ONLINE_USERS_KEY, userId)) > 0
+      ) {
+        wentOffline.push(userId);
+      }
+    }
+
+    await client.del(instanceUsersKey(stoppedId));
+    await client.sRem(INSTANCES_KEY, stoppedId);
+    return wentOffline;
+  };
+
+  return {
+    addSocket: async (userId, socketId) => {
+      await keepAlive();
+      await client.sAdd(instanceUsersKey(instanceId), userId);
+      await client.sAdd(socketsKey(userId), member(socketId));
+      return client.sCard(socketsKey(userId));
+    },
+    removeSocket: async (userId, socketId) => {
+      await client.sRem(socketsKey(userId), member(socketId));
+      return client.sCard(socketsKey(userId));
+    },
+    countSockets: (userId) => client.sCard(socketsKey(userId)),
+    setOnline: async (userId) =>
+      (await client.sAdd(ONLINE_USERS_KEY, userId)) > 0,
+    setOffline: async (userId) =>
+      (await client.sRem(ONLINE_USERS_KEY, userId)) > 0,
+    getOnlineUsers: () => client.sMembers(ONLINE_USERS_KEY),
+
+    sweep: async () => {
+      await keepAlive();
+
+      const wentOffline: string[] = [];
+      for (const otherId of await client.sMembers(INSTANCES_KEY)) {
+        if (otherId === instanceId || (await client.get(aliveKey(otherId)))) {
+          continue;
+        }
+        wentOffline.push(...(await clearInstance(otherId)));
+      }
+      return wentOffline;
+    },
+  };
+};
+
+/**
+ * Turns socket connects and disconnects into online/offline transitions,
+ * counting every tab and device a user has open
+ */
+export interface PresenceTracker {
+  connect: (userId: string, socketId: string) => Promise<void>;
+  disconnect: (userId: string, socketId: string) => Promise<void>;
+  // Stop sweeping. Pending offline announcements still run, or users who
+  // left during shutdown would stay online.
+  stop: () => void;
+}
+
+// Long enough to absorb a page reload
+export const PRESENCE_GRACE_MS = 5000;
+// Well within PRESENCE_INSTANCE_TTL_MS, so a slow sweep isn't taken for a
+// stopped instance
+export const PRESENCE_SWEEP_INTERVAL_MS = 10 * 1000;
+
+export const createPresenceTracker = (
+  store: PresenceStore,
+  onChange: (userId: string, status: 'online' | 'offline') => void,
+  graceMs: number = PRESENCE_GRACE_MS,
+  sweepIntervalMs: number = PRESENCE_SWEEP_INTERVAL_MS
+): PresenceTracker => {
+  // userId -> timer that announces the user offline
+  const pendingOffline = new Map<string, NodeJS.Timeout>();
+
+  const sweep = async () => {
+    for (const userId of await store.sweep()) {
+      onChange(userId, 'offline');
+    }
+  };
+  const sweepTimer = setInterval(() => {
+    sweep().catch((error) =>
+      logger.error('Error sweeping presence', { error })
+    );
+  }, sweepIntervalMs);
+  sweepTimer.unref();
+
+  const goOfflineIfGone = async (userId: string) => {
+    pendingOffline.delete(userId);
+    // The user may have come back on this or another instance meanwhile
+    if ((await store.countSockets(userId)) > 0) return;
+    if (await store.setOffline(userId)) onChange(userId, 'offline');
+  };
+
+  return {
+    connect: async (userId, socketId) => {
+      const pending = pendingOffline.get(userId);
+      if (pending) {
+        clearTimeout(pending);
+        pendingOffline.delete(userId);
+      }
+
+      await store.addSocket(userId, socketId);
+      // Already online if another socket is open or the grace period is running
+      if (await store.setOnline(userId)) onChange(userId, 'online');
+    },
+
+    disconnect: async (userId, socketId) => {
+      if ((await store.removeSocket(userId, socketId)) > 0) return;
+
+      clearTimeout(pendingOffline.get(userId));
+      pendingOffline.set(
+        userId,
+        setTimeout(() => {
+          goOfflineIfGone(userId).catch((error) =>
+            logger.error('Error marking user offline', { userId, error })
+          );
+        }, graceMs)
+      );
+    },
+
+    stop: () => clearInterval(sweepTimer),
+  };
+};
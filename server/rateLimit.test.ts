@@ -0,0 +1,113 @@
+import { createRateLimiter, RateLimit } from './rateLimit';
+
+const LIMITS: Record<string, RateLimit> = {
+  send_message: { capacity: 3, refillPerSecond: 2 },
+};
+
+describe('rate limiter', () => {
+  let time: number;
+  const now = () => time;
+
+  beforeEach(() => {
+    time = 0;
+  });
+
+  // Consume `count` send_message events, returning the results
+  const consumeMany = (
+    limiter: ReturnType<typeof createRateLimiter>,
+    count: number,
+    userId = 'alice'
+  ) =>
+    Array.from({ length: count }, () =>
+      limiter.consume(userId, 'send_message')
+    );
+
+  test('should allow a burst up to the capacity', () => {
+    const limiter = createRateLimiter(LIMITS, 10, 1000, now);
+
+    const results = consumeMany(limiter, 4);
+
+    expect(results.map((result) => result.allowed)).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  test('should say how long to wait for the next token', () => {
+    const limiter = createRateLimiter(LIMITS, 10, 1000, now);
+    consumeMany(limiter, 3);
+
+    time = 200;
+
+    // 0.4 of a token has refilled, the rest takes 300ms at 2 per second
+    expect(limiter.consume('alice', 'send_message')).toEqual({
+      allowed: false,
+      retryAfterMs: 300,
+      abusive: false,
+    });
+  });
+
+  test('should refill tokens over time without exceeding the capacity', () => {
+    const limiter = createRateLimiter(LIMITS, 10, 1000, now);
+    consumeMany(limiter, 3);
+
+    time = 500;
+    expect(limiter.consume('alice', 'send_message').allowed).toBe(true);
+    expect(limiter.consume('alice', 'send_message').allowed).toBe(false);
+
+    time = 60000;
+    expect(consumeMany(limiter, 4).map((result) => result.allowed)).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  test('should keep separate buckets per user and allow unlimited events', () => {
+    const limiter = createRateLimiter(LIMITS, 10, 1000, now);
+    consumeMany(limiter, 3);
+
+    expect(limiter.consume('bob', 'send_message').allowed).toBe(true);
+    expect(limiter.consume('alice', 'join_conversation').allowed).toBe(true);
+  });
+
+  test('should flag a user who keeps going after being limited', () => {
+    const limiter = createRateLimiter(LIMITS, 3, 1000, now);
+    consumeMany(limiter, 3);
+
+    const rejected = consumeMany(limiter, 3);
+
+    expect(rejected).toEqual([
+      expect.objectContaining({ abusive: false }),
+      expect.objectContaining({ abusive: false }),
+      expect.objectContaining({ abusive: true }),
+    ]);
+  });
+
+  test('should only count rejections within the abuse window', () => {
+    const limiter = createRateLimiter(
+      { send_message: { capacity: 1, refillPerSecond: 0.001 } },
+      3,
+      1000,
+      now
+    );
+    consumeMany(limiter, 3);
+
+    time = 1500;
+    const rejected = limiter.consume('alice', 'send_message');
+
+    expect(rejected).toMatchObject({ allowed: false, abusive: false });
+  });
+
+  test('should start over once a user is reset', () => {
+    const limiter = createRateLimiter(LIMITS, 10, 1000, now);
+    consumeMany(limiter, 3);
+
+    limiter.reset('alice');
+
+    expect(limiter.consume('alice', 'send_message').allowed).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+import { logger } from './logger';
+
+/**
+ * Token bucket for one kind of event: up to `capacity` events in a burst,
+ * refilled at `refillPerSecond`
+ */
+export interface RateLimit {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  // `abusive` is set once the user keeps going despite being limited
+  | { allowed: false; retryAfterMs: number; abusive: boolean };
+
+/**
+ * Per-user, per-event rate limits. Events without a configured limit are
+ * always allowed.
+ */
+export interface RateLimiter {
+  consume: (userId: string, event: string) => RateLimitResult;
+  // Forget a user's buckets once they have no sockets left
+  reset: (userId: string) => void;
+}
+
+export const DEFAULT_RATE_LIMITS: Record<string, RateLimit> = {
+  new_message: { capacity: 10, refillPerSecond: 1 },
+  send_message: { capacity: 10, refillPerSecond: 1 },
+  edit_message: { capacity: 10, refillPerSecond: 1 },
+  message_edited: { capacity: 10, refillPerSecond: 1 },
+  delete_message: { capacity: 10, refillPerSecond: 1 },
+  message_deleted: { capacity: 10, refillPerSecond: 1 },
+  update_reaction: { capacity: 20, refillPerSecond: 2 },
+  reaction_updated: { capacity: 20, refillPerSecond: 2 },
+  user_typing: { capacity: 5, refillPerSecond: 1 },
+  user_stop_typing: { capacity: 5, refillPerSecond: 1 },
+  message_read: { capacity: 50, refillPerSecond: 10 },
+  message_delivered: { capacity: 50, refillPerSecond: 10 },
+  join_conversation: { capacity: 20, refillPerSecond: 2 },
+  leave_conversation: { capacity: 20, refillPerSecond: 2 },
+  get_online_users: { capacity: 5, refillPerSecond: 0.5 },
+};
+
+// Rejected events within the window before a user counts as abusive
+export const ABUSE_THRESHOLD = 50;
+export const ABUSE_WINDOW_MS = 10000;
+
+export const createRateLimiter = (
+  limits: Record<string, RateLimit> = DEFAULT_RATE_LIMITS,
+  abuseThreshold: number = ABUSE_THRESHOLD,
+  abuseWindowMs: number = ABUSE_WINDOW_MS,
+  now: () => number = Date.now
+): RateLimiter => {
+  // `${userId}:${event}` -> bucket
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  // userId -> times of recent rejections, oldest first
+  const rejections = new Map<string, number[]>();
+
+  const recordRejection = (userId: string, at: number): boolean => {
+    const recent = (rejections.get(userId) ?? []).filter(
+      (time) => at - time < abuseWindowMs
+    );
+    recent.push(at);
+    rejections.set(userId, recent);
+    return recent.length >= abuseThreshold;
+  };
+
+  return {
+    consume: (userId, event) => {
+      const limit = limits[event];
+      if (!limit) return { allowed: true };
+
+      const at = now();
+      const key = `${userId}:${event}`;
+      const bucket = buckets.get(key) ?? {
+        tokens: limit.capacity,
+        updatedAt: at,
+      };
+      buckets.set(key, bucket);
+
+      bucket.tokens = Math.min(
+        limit.capacity,
+        bucket.tokens + ((at - bucket.updatedAt) / 1000) * limit.refillPerSecond
+      );
+      bucket.updatedAt = at;
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true };
+      }
+
+      return {
+        allowed: false,
+        retryAfterMs: Math.ceil(
+          ((1 - bucket.tokens) / limit.refillPerSecond) * 1000
+        ),
+        abusive: recordRejection(userId, at),
+      };
+    },
+
+    reset: (userId) => {
+      const prefix = `${userId}:`;
+      for (const key of Array.from(buckets.keys())) {
+        if (key.startsWith(prefix)) buckets.delete(key);
+      }
+      rejections.delete(userId);
+    },
+  };
+};
+
+/**
+ * Default limits with any overrides from SOCKET_RATE_LIMITS, a JSON object of
+ * event name to `{ capacity, refillPerSecond }`
+ */
+export const createRateLimiterFromEnv = (): RateLimiter => {
+  const overrides = process.env.SOCKET_RATE_LIMITS;
+  if (!overrides) return createRateLimiter();
+
+  try {
+    return createRateLimiter({
+      ...DEFAULT_RATE_LIMITS,
+      ...(JSON.parse(overrides) as Record<string, RateLimit>),
+    });
+  } catch (error) {
+    logger.error('Ignoring invalid SOCKET_RATE_LIMITS', { error });
+    return createRateLimiter();
+  }
+};
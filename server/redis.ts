@@ -0,0 +1,193 @@
+import { Server } from 'socket.io';
+import { logger } from './logger';
+
+/**
+ * The Redis commands the shared server state relies on. Implemented by a real
+ * Redis connection and by an in-process fake for tests and local development.
+ */
+export interface RedisStateClient {
+  get: (key: string) => Promise<string | null>;
+  // Resolves to true if the key was set, false if `onlyIfMissing` blocked it
+  set: (
+    key: string,
+    value: string,
+    options?: { onlyIfMissing?: boolean; expireMs?: number }
+  ) => Promise<boolean>;
+  del: (key: string) => Promise<void>;
+  incr: (key: string) => Promise<number>;
+  sAdd: (key: string, member: string) => Promise<number>;
+  sRem: (key: string, member: string) => Promise<number>;
+  sMembers: (key: string) => Promise<string[]>;
+  sCard: (key: string) => Promise<number>;
+  rPush: (key: string, value: string) => Promise<number>;
+  // Keep only the last `count` entries of a list
+  lKeepLast: (key: string, count: number) => Promise<void>;
+  lRange: (key: string, start: number, stop: number) => Promise<string[]>;
+  // Rejects if the server can't be reached
+  ping: () => Promise<void>;
+}
+
+/**
+ * Client backed by a Redis server. The `redis` package is loaded and the
+ * connection opened on first use.
+ */
+export const createRedisStateClient = (url: string): RedisStateClient => {
+  type Client = Awaited<ReturnType<typeof connect>>;
+  let clientPromise: Promise<Client> | null = null;
+
+  const connect = async () => {
+    const { createClient } = await import('redis');
+    const client = createClient({ url });
+    client.on('error', (error) => logger.error('Redis error', { error }));
+    await client.connect();
+    return client;
+  };
+
+  const getClient = () => {
+    if (!clientPromise) {
+      clientPromise = connect().catch((error) => {
+        // Let the next command try again
+        clientPromise = null;
+        throw error;
+      });
+    }
+    return clientPromise;
+  };
+
+  return {
+    get: async (key) => {
+      const value = await (await getClient()).get(key);
+      return value === null ? null : String(value);
+    },
+    set: async (key, value, options = {}) => {
+      const result = await (
+        await getClient()
+      ).set(key, value, {
+        ...(options.onlyIfMissing ? { condition: 'NX' as const } : {}),
+        ...(options.expireMs
+          ? { expiration: { type: 'PX' as const, value: options.expireMs } }
+          : {}),
+      });
+      return result !== null;
+    },
+    del: async (key) => {
+      await (await getClient()).del(key);
+    },
+    incr: async (key) => Number(await (await getClient()).incr(key)),
+    sAdd: async (key, member) =>
+      Number(await (await getClient()).sAdd(key, member)),
+    sRem: async (key, member) =>
+      Number(await (await getClient()).sRem(key, member)),
+    sMembers: async (key) =>
+      (await (await getClient()).sMembers(key)).map(String),
+    sCard: async (key) => Number(await (await getClient()).sCard(key)),
+    rPush: async (key, value) =>
+      Number(await (await getClient()).rPush(key, value)),
+    lKeepLast: async (key, count) => {
+      await (await getClient()).lTrim(key, -count, -1);
+    },
+    lRange: async (key, start, stop) =>
+      (await (await getClient()).lRange(key, start, stop)).map(String),
+    ping: async () => {
+      await (await getClient()).ping();
+    },
+  };
+};
+
+/**
+ * In-process stand-in for Redis with the same semantics for the commands
+ * above. Several server instances created in one process can share it.
+ */
+export const createInProcessRedisClient = (): RedisStateClient => {
+  const strings = new Map<string, { value: string; expiresAt?: number }>();
+  const sets = new Map<string, Set<string>>();
+  const lists = new Map<string, string[]>();
+
+  const readString = (key: string) => {
+    const entry = strings.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      strings.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  // Redis-style inclusive range with negative indexes counted from the end
+  const slice = <T>(items: T[], start: number, stop: number) => {
+    const from = start < 0 ? Math.max(0, items.length + start) : start;
+    const to = stop < 0 ? items.length + stop : stop;
+    return items.slice(from, to + 1);
+  };
+
+  return {
+    get: async (key) => readString(key)?.value ?? null,
+    set: async (key, value, options = {}) => {
+      if (options.onlyIfMissing && readString(key)) return false;
+
+      strings.set(key, {
+        value,
+        expiresAt: options.expireMs ? Date.now() + options.expireMs : undefined,
+      });
+      return true;
+    },
+    del: async (key) => {
+      strings.delete(key);
+      sets.delete(key);
+      lists.delete(key);
+    },
+    incr: async (key) => {
+      const next = Number(readString(key)?.value ?? 0) + 1;
+      strings.set(key, { value: String(next) });
+      return next;
+    },
+    sAdd: async (key, member) => {
+      const set = sets.get(key) ?? new Set<string>();
+      sets.set(key, set);
+      if (set.has(member)) return 0;
+      set.add(member);
+      return 1;
+    },
+    sRem: async (key, member) => {
+      const set = sets.get(key);
+      if (!set?.delete(member)) return 0;
+      if (set.size === 0) sets.delete(key);
+      return 1;
+    },
+    sMembers: async (key) => Array.from(sets.get(key) ?? []),
+    sCard: async (key) => sets.get(key)?.size ?? 0,
+    rPush: async (key, value) => {
+      const list = lists.get(key) ?? [];
+      lists.set(key, list);
+      return list.push(value);
+    },
+    lKeepLast: async (key, count) => {
+      const list = lists.get(key);
+      if (list && list.length > count) {
+        lists.set(key, list.slice(-count));
+      }
+    },
+    lRange: async (key, start, stop) =>
+      slice(lists.get(key) ?? [], start, stop),
+    ping: async () => {},
+  };
+};
+
+/**
+ * Route Socket.IO rooms and broadcasts through Redis pub/sub so every server
+ * instance delivers events to its own sockets
+ */
+export const attachRedisAdapter = async (
+  io: Server,
+  url: string
+): Promise<void> => {
+  const { createClient } = await import('redis');
+  const { createAdapter } = await import('@socket.io/redis-adapter');
+
+  const pubClient = createClient({ url });
+  const subClient = pubClient.duplicate();
+  pubClient.on('error', (error) => logger.error('Redis pub error', { error }));
+  subClient.on('error', (error) => logger.error('Redis sub error', { error }));
+
+  await Promise.all([pubClient.connect(), subClient.connect()]);
+  io.adapter(createAdapter(pubClient, subClient));
+};
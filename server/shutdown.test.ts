@@ -0,0 +1,40 @@
+import { createInFlightTracker, settlesWithin } from './shutdown';
+
+describe('in-flight tracker', () => {
+  test('should be idle once every piece of work is done', async () => {
+    const inFlight = createInFlightTracker();
+    const first = inFlight.start();
+    const second = inFlight.start();
+    let idle = false;
+    const whenIdle = inFlight.whenIdle().then(() => {
+      idle = true;
+    });
+
+    first();
+    // Finishing the same work twice doesn't count twice
+    first();
+    await Promise.resolve();
+    expect(inFlight.size()).toBe(1);
+    expect(idle).toBe(false);
+
+    second();
+    await whenIdle;
+    expect(inFlight.size()).toBe(0);
+  });
+
+  test('should resolve straight away when nothing is in flight', async () => {
+    await expect(createInFlightTracker().whenIdle()).resolves.toBeUndefined();
+  });
+});
+
+describe('settlesWithin', () => {
+  test('should tell whether a promise settled in time', async () => {
+    const never = new Promise(() => {});
+
+    expect(await settlesWithin(Promise.resolve(), 50)).toBe(true);
+    expect(await settlesWithin(Promise.reject(new Error('Failed')), 50)).toBe(
+      true
+    );
+    expect(await settlesWithin(never, 20)).toBe(false);
+  });
+});
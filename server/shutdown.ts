@@ -0,0 +1,61 @@
+/**
+ * Counts work the server has promised to finish, such as events waiting for
+ * their acknowledgement, so shutdown can wait for it
+ */
+export interface InFlightTracker {
+  // Returns the function to call once the work is done
+  start: () => () => void;
+  size: () => number;
+  // Resolves once nothing is in flight
+  whenIdle: () => Promise<void>;
+}
+
+export const createInFlightTracker = (): InFlightTracker => {
+  let count = 0;
+  let waiters: (() => void)[] = [];
+
+  const notifyIfIdle = () => {
+    if (count > 0) return;
+    waiters.forEach((resolve) => resolve());
+    waiters = [];
+  };
+
+  return {
+    start: () => {
+      count += 1;
+      let finished = false;
+
+      return () => {
+        if (finished) return;
+        finished = true;
+        count -= 1;
+        notifyIfIdle();
+      };
+    },
+
+    size: () => count,
+
+    whenIdle: () =>
+      count === 0
+        ? Promise.resolve()
+        : new Promise((resolve) => waiters.push(resolve)),
+  };
+};
+
+export const SHUTDOWN_TIMEOUT_MS = 10000;
+
+/**
+ * Resolves to true if `promise` settles within `ms`, false otherwise
+ */
+export const settlesWithin = (
+  promise: Promise<unknown>,
+  ms: number
+): Promise<boolean> =>
+  new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(false), ms);
+    const settled = () => {
+      clearTimeout(timer);
+      resolve(true);
+    };
+    promise.then(settled, settled);
+  });
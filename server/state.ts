@@ -0,0 +1,74 @@
+import { Server } from 'socket.io';
+import {
+  createRoomEventLog,
+  createRedisRoomEventLog,
+  RoomEventLog,
+} from './eventLog';
+import {
+  createRecentMessageIds,
+  createRedisRecentMessageIds,
+  RecentMessageIds,
+} from './messageIds';
+import {
+  createInMemoryPresenceStore,
+  createRedisPresenceStore,
+  PresenceStore,
+} from './presence';
+import {
+  attachRedisAdapter,
+  createRedisStateClient,
+  RedisStateClient,
+} from './redis';
+
+/**
+ * Everything a server instance would otherwise keep in its own memory, so
+ * several instances behind a load balancer behave like one
+ */
+export interface ServerState {
+  presence: PresenceStore;
+  eventLog: RoomEventLog;
+  recentMessageIds: RecentMessageIds;
+  // Set up the Socket.IO adapter that routes rooms and broadcasts
+  attach: (io: Server) => Promise<void>;
+  // Rejects if the shared state can't be reached
+  checkReady: () => Promise<void>;
+}
+
+/**
+ * State for a single instance, using Socket.IO's default in-memory adapter
+ */
+export const createInMemoryServerState = (): ServerState => ({
+  presence: createInMemoryPresenceStore(),
+  eventLog: createRoomEventLog(),
+  recentMessageIds: createRecentMessageIds(),
+  attach: async () => {},
+  checkReady: async () => {},
+});
+
+/**
+ * State shared through Redis. `attachAdapter` connects the instance to the
+ * other instances' broadcasts; leave it out for a single instance.
+ */
+export const createRedisServerState = (
+  client: RedisStateClient,
+  attachAdapter: (io: Server) => Promise<void> = async () => {}
+): ServerState => ({
+  presence: createRedisPresenceStore(client),
+  eventLog: createRedisRoomEventLog(client),
+  recentMessageIds: createRedisRecentMessageIds(client),
+  attach: attachAdapter,
+  checkReady: () => client.ping(),
+});
+
+/**
+ * Pick the state from the environment: Redis when REDIS_URL is set, in-memory
+ * otherwise.
+ */
+export const createServerStateFromEnv = (): ServerState => {
+  const redisUrl = process.env.REDIS_URL;
+  return redisUrl
+    ? createRedisServerState(createRedisStateClient(redisUrl), (io) =>
+        attachRedisAdapter(io, redisUrl)
+      )
+    : createInMemoryServerState();
+};
@@ -0,0 +1,69 @@
+/**
+ * Tracks who is typing where so that typing state expires on the server when
+ * a client stops refreshing it (closed tab, lost stop event, crash)
+ */
+export interface TypingTracker {
+  // Returns true if the user was not already typing in the conversation
+  start: (conversationId: string, userId: string) => boolean;
+  // Returns true if the user was typing in the conversation
+  stop: (conversationId: string, userId: string) => boolean;
+  // Stops every conversation the user is typing in and returns their IDs
+  stopAll: (userId: string) => string[];
+}
+
+export const TYPING_EXPIRY_MS = 6000;
+
+export const createTypingTracker = (
+  onExpire: (conversationId: string, userId: string) => void,
+  expiryMs: number = TYPING_EXPIRY_MS
+): TypingTracker => {
+  // `${conversationId}:${userId}` -> expiry timer
+  const timers = new Map<string, NodeJS.Timeout>();
+  const keyFor = (conversationId: string, userId: string) =>
+    `${conversationId}:${userId}`;
+
+  const stop = (conversationId: string, userId: string): boolean => {
+    const key = keyFor(conversationId, userId);
+    const timer = timers.get(key);
+    if (!timer) return false;
+
+    clearTimeout(timer);
+    timers.delete(key);
+    return true;
+  };
+
+  return {
+    start: (conversationId, userId) => {
+      const key = keyFor(conversationId, userId);
+      const existing = timers.get(key);
+      if (existing) clearTimeout(existing);
+
+      timers.set(
+        key,
+        setTimeout(() => {
+          timers.delete(key);
+          onExpire(conversationId, userId);
+        }, expiryMs)
+      );
+
+      return !existing;
+    },
+
+    stop,
+
+    stopAll: (userId) => {
+      const suffix = `:${userId}`;
+      const conversationIds: string[] = [];
+
+      for (const key of Array.from(timers.keys())) {
+        if (key.endsWith(suffix)) {
+          const conversationId = key.slice(0, -suffix.length);
+          stop(conversationId, userId);
+          conversationIds.push(conversationId);
+        }
+      }
+
+      return conversationIds;
+    },
+  };
+};
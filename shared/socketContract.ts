@@ -0,0 +1,541 @@
+/**
+ * Socket event contract shared by the Next.js client and the Socket.IO server.
+ * Event names, payload schemas and the typed event maps all live here so the
+ * two sides cannot drift apart.
+ */
+import { z } from 'zod';
+
+export const SocketEvents = {
+  CONNECT: 'connect',
+  DISCONNECT: 'disconnect',
+  CONNECT_ERROR: 'connect_error',
+  ERROR: 'error',
+  SERVER_DRAINING: 'server_draining',
+  NEW_MESSAGE: 'new_message',
+  USER_TYPING: 'user_typing',
+  USER_STOP_TYPING: 'user_stop_typing',
+  USER_ONLINE: 'user_online',
+  USER_OFFLINE: 'user_offline',
+  GET_ONLINE_USERS: 'get_online_users',
+  MESSAGE_READ: 'message_read',
+  MESSAGE_DELIVERED: 'message_delivered',
+
+  // Conversation/message events
+  SEND_MESSAGE: 'send_message',
+  MESSAGES_UPDATED: 'messages_updated',
+  EDIT_MESSAGE: 'edit_message',
+  MESSAGE_EDITED: 'message_edited',
+  DELETE_MESSAGE: 'delete_message',
+  MESSAGE_DELETED: 'message_deleted',
+  UPDATE_REACTION: 'update_reaction',
+  REACTION_UPDATED: 'reaction_updated',
+  GET_CONVERSATIONS: 'get_conversations',
+  CONVERSATIONS_UPDATED: 'conversations_updated',
+  JOIN_CONVERSATION: 'join_conversation',
+  LEAVE_CONVERSATION: 'leave_conversation',
+} as const;
+
+export type SocketEventType = (typeof SocketEvents)[keyof typeof SocketEvents];
+
+/**
+ * Payload schemas, validated by the server for every client event
+ */
+export const conversationRefSchema = z.object({
+  conversationId: z.string().min(1),
+});
+
+export const messageReceiptSchema = z.object({
+  messageId: z.string().min(1),
+  conversationId: z.string().min(1),
+});
+
+// When each recipient received and read a message, keyed by user ID
+export const messageReceiptsSchema = z.record(
+  z.object({
+    deliveredAt: z.string().optional(),
+    readAt: z.string().optional(),
+  })
+);
+
+// Who reacted to a message with each emoji, keyed by the emoji
+export const messageReactionsSchema = z.record(z.array(z.string()));
+
+// How much of the original message a reply quotes
+export const REPLY_SNIPPET_LENGTH = 200;
+
+// The message a reply quotes, captured when the reply is sent
+export const messageReplySchema = z.object({
+  id: z.string().min(1),
+  sender: z.string().min(1),
+  content: z.string().max(REPLY_SNIPPET_LENGTH),
+});
+
+// Summary of the thread started from a message, kept on the root message
+export const messageThreadSchema = z.object({
+  replyCount: z.number().int().nonnegative(),
+  lastReplyAt: z.string(),
+  // The most recent repliers, newest first
+  lastRepliers: z.array(z.string()),
+});
+
+export const messageSchema = z.object({
+  id: z.string().min(1),
+  conversationId: z.string().min(1),
+  sender: z.string().min(1),
+  content: z.string(),
+  timestamp: z.union([z.string(), z.date()]),
+  status: z.enum(['sent', 'delivered', 'read']),
+  isAI: z.boolean().optional(),
+  receipts: messageReceiptsSchema.optional(),
+  // When the content was last edited
+  editedAt: z.string().optional(),
+  // Set when the sender deleted the message for everyone; the content is
+  // cleared then
+  deletedAt: z.string().optional(),
+  reactions: messageReactionsSchema.optional(),
+  replyTo: messageReplySchema.optional(),
+  thread: messageThreadSchema.optional(),
+});
+
+export const MESSAGE_MAX_LENGTH = 4000;
+
+// Long enough for emoji built from several code points, like flags
+export const REACTION_MAX_LENGTH = 16;
+
+// How long after sending a message its sender can still delete it for
+// everyone, unless configured otherwise
+export const MESSAGE_DELETE_WINDOW_MS = 60 * 60 * 1000;
+
+// A message the client already stored in Firestore, relayed to the room. Only
+// these fields are relayed; the server stamps the sender, timestamp and status.
+export const relayMessageSchema = z.object({
+  id: z.string().min(1),
+  conversationId: z.string().min(1),
+  content: z.string().min(1).max(MESSAGE_MAX_LENGTH),
+  replyTo: messageReplySchema.optional(),
+});
+
+// The server stamps the sender and timestamp of messages it persists itself
+export const sendMessageSchema = z.object({
+  id: z.string().min(1),
+  conversationId: z.string().min(1),
+  content: z.string().trim().min(1).max(MESSAGE_MAX_LENGTH),
+  replyTo: messageReplySchema.optional(),
+});
+
+// The server checks that the editor sent the message and stamps the edit time
+export const editMessageSchema = z.object({
+  messageId: z.string().min(1),
+  conversationId: z.string().min(1),
+  content: z.string().trim().min(1).max(MESSAGE_MAX_LENGTH),
+});
+
+// An edit the client already stored in Firestore, relayed to the room
+export const messageEditSchema = editMessageSchema.extend({
+  editedAt: z.string().min(1),
+});
+
+// The server checks that the requester sent the message and is still within
+// the delete window
+export const deleteMessageSchema = z.object({
+  messageId: z.string().min(1),
+  conversationId: z.string().min(1),
+});
+
+// A deletion the client already stored in Firestore, relayed to the room
+export const messageDeleteSchema = deleteMessageSchema.extend({
+  deletedAt: z.string().min(1),
+});
+
+// Adds or removes the user's own reaction. Relayed as is when the client
+// already stored it in Firestore, since there is nothing to stamp.
+export const updateReactionSchema = z.object({
+  messageId: z.string().min(1),
+  conversationId: z.string().min(1),
+  emoji: z.string().trim().min(1).max(REACTION_MAX_LENGTH),
+  action: z.enum(['add', 'remove']),
+});
+
+// Joining can resume from the last event the client saw in the room
+export const joinConversationSchema = conversationRefSchema.extend({
+  resumeFrom: z
+    .object({
+      epoch: z.string().min(1),
+      seq: z.number().int().nonnegative(),
+    })
+    .optional(),
+});
+
+export type ConversationRefPayload = z.infer<typeof conversationRefSchema>;
+export type JoinConversationPayload = z.infer<typeof joinConversationSchema>;
+export type MessageReceiptPayload = z.infer<typeof messageReceiptSchema>;
+export type MessagePayload = z.infer<typeof messageSchema>;
+export type MessageReceipts = z.infer<typeof messageReceiptsSchema>;
+export type MessageReply = z.infer<typeof messageReplySchema>;
+export type RelayMessagePayload = z.infer<typeof relayMessageSchema>;
+export type SendMessagePayload = z.infer<typeof sendMessageSchema>;
+export type EditMessagePayload = z.infer<typeof editMessageSchema>;
+export type MessageEditPayload = z.infer<typeof messageEditSchema>;
+export type DeleteMessagePayload = z.infer<typeof deleteMessageSchema>;
+export type MessageDeletePayload = z.infer<typeof messageDeleteSchema>;
+export type MessageReactions = z.infer<typeof messageReactionsSchema>;
+export type UpdateReactionPayload = z.infer<typeof updateReactionSchema>;
+
+/**
+ * Payloads only ever produced by the server
+ */
+export interface TypingEventPayload {
+  conversationId: string;
+  userId: string;
+}
+
+export interface PresenceEventPayload {
+  userId: string;
+}
+
+export interface ReceiptEventPayload extends MessageReceiptPayload {
+  userId: string;
+  // When the server received the receipt
+  timestamp: string;
+}
+
+export type ReceiptStatus = 'delivered' | 'read';
+
+// A version of a message's content that was later edited, kept in the
+// message's `history` subcollection
+export interface MessageVersion {
+  content: string;
+  // When this version was written: the send time or the previous edit
+  timestamp: string;
+}
+
+// Clients only apply an edit when `userId` is the message's sender
+export interface MessageEditedPayload extends MessageEditPayload {
+  userId: string;
+}
+
+// Clients only apply a deletion when `userId` is the message's sender
+export interface MessageDeletedPayload extends MessageDeletePayload {
+  userId: string;
+}
+
+// `userId` is whoever reacted, stamped by the server
+export interface ReactionUpdatedPayload extends UpdateReactionPayload {
+  userId: string;
+}
+
+/**
+ * Add or remove `userId`'s reaction with `emoji`, dropping emoji nobody
+ * reacted with anymore. Adding twice or removing a missing reaction changes
+ * nothing, so updates can be applied more than once.
+ */
+export const applyReaction = (
+  reactions: MessageReactions | undefined,
+  {
+    userId,
+    emoji,
+    action,
+  }: Pick<ReactionUpdatedPayload, 'userId' | 'emoji' | 'action'>
+): MessageReactions => {
+  const users = (reactions?.[emoji] ?? []).filter((id) => id !== userId);
+  if (action === 'add') users.push(userId);
+
+  const next = { ...reactions, [emoji]: users };
+  if (!users.length) delete next[emoji];
+  return next;
+};
+
+/**
+ * Record that `userId` received or read a message at `timestamp`, keeping the
+ * first time each happened. Reading implies delivery. Returns `receipts`
+ * unchanged if there is nothing new.
+ */
+export const recordReceipt = (
+  receipts: MessageReceipts | undefined,
+  userId: string,
+  status: ReceiptStatus,
+  timestamp: string
+): MessageReceipts => {
+  const current = receipts?.[userId] ?? {};
+  const next = {
+    deliveredAt: current.deliveredAt ?? timestamp,
+    ...(status === 'read' || current.readAt
+      ? { readAt: current.readAt ?? timestamp }
+      : {}),
+  };
+
+  if (
+    next.deliveredAt === current.deliveredAt &&
+    next.readAt === current.readAt
+  ) {
+    return receipts ?? {};
+  }
+  return { ...receipts, [userId]: next };
+};
+
+/**
+ * Whether a read receipt for `read` also covers `message`. Reading a message
+ * means having read everything sent before it by someone else, so clients
+ * only send a read receipt for the newest message they've seen.
+ */
+export const isReadUpTo = (
+  message: { sender: string; timestamp: string | Date },
+  read: { timestamp: string | Date },
+  readerId: string
+): boolean =>
+  message.sender !== readerId &&
+  new Date(message.timestamp).getTime() <= new Date(read.timestamp).getTime();
+
+export interface MessagesUpdatedPayload {
+  conversationId: string;
+  messages: MessagePayload[];
+}
+
+/**
+ * Events broadcast to a conversation room. The server numbers them per room
+ * and keeps the most recent ones so reconnecting clients can catch up.
+ */
+export interface RoomEventMap {
+  [SocketEvents.NEW_MESSAGE]: MessagePayload;
+  [SocketEvents.MESSAGE_READ]: ReceiptEventPayload;
+  [SocketEvents.MESSAGE_DELIVERED]: ReceiptEventPayload;
+  [SocketEvents.MESSAGES_UPDATED]: MessagesUpdatedPayload;
+  [SocketEvents.MESSAGE_EDITED]: MessageEditedPayload;
+  [SocketEvents.MESSAGE_DELETED]: MessageDeletedPayload;
+  [SocketEvents.REACTION_UPDATED]: ReactionUpdatedPayload;
+}
+
+export type RoomEventName = keyof RoomEventMap;
+
+// `seq` increases by one for every event broadcast to the room
+export type Sequenced<T> = T & { seq: number };
+
+export type RoomEvent = {
+  [E in RoomEventName]: { event: E; payload: Sequenced<RoomEventMap[E]> };
+}[RoomEventName];
+
+export const SocketErrorCodes = {
+  INVALID_PAYLOAD: 'invalid_payload',
+  NOT_IN_CONVERSATION: 'not_in_conversation',
+  RATE_LIMITED: 'rate_limited',
+} as const;
+
+export type SocketErrorCode =
+  (typeof SocketErrorCodes)[keyof typeof SocketErrorCodes];
+
+export interface SocketErrorPayload {
+  code: SocketErrorCode;
+  message: string;
+  event?: string;
+  conversationId?: string;
+  // With `rate_limited`: how long until the event will be accepted again
+  retryAfterMs?: number;
+}
+
+export interface AckResponse {
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * Acknowledgement for NEW_MESSAGE. `duplicate` is set when the server had
+ * already relayed a message with the same ID, e.g. after a client retry.
+ */
+export interface MessageAckResponse extends AckResponse {
+  duplicate?: boolean;
+}
+
+/**
+ * Acknowledgement for SEND_MESSAGE, carrying the message as the server stored
+ * it
+ */
+export interface SendMessageAckResponse extends MessageAckResponse {
+  message?: MessagePayload;
+}
+
+/**
+ * Acknowledgement for EDIT_MESSAGE, carrying the message as the server stored
+ * it after the edit
+ */
+export interface EditMessageAckResponse extends AckResponse {
+  message?: MessagePayload;
+}
+
+/**
+ * Acknowledgement for DELETE_MESSAGE, carrying the tombstone the server stored
+ */
+export interface DeleteMessageAckResponse extends AckResponse {
+  message?: MessagePayload;
+}
+
+/**
+ * Acknowledgement for UPDATE_REACTION, carrying the message with its
+ * reactions as the server stored them
+ */
+export interface UpdateReactionAckResponse extends AckResponse {
+  message?: MessagePayload;
+}
+
+/**
+ * Acknowledgement for JOIN_CONVERSATION. `epoch` identifies the server's
+ * event log and `seq` is the room's latest sequence number. When the join
+ * asked to resume, `missed` holds the events since then, or `refetch` is set
+ * if they are no longer available and the client must reload the messages.
+ */
+export interface JoinAckResponse extends AckResponse {
+  epoch?: string;
+  seq?: number;
+  missed?: RoomEvent[];
+  refetch?: boolean;
+}
+
+/**
+ * Acknowledgement for GET_ONLINE_USERS with the IDs of every online user
+ */
+export interface OnlineUsersAckResponse extends AckResponse {
+  userIds?: string[];
+}
+
+type RoomEventListeners = {
+  [E in RoomEventName]: (payload: Sequenced<RoomEventMap[E]>) => void;
+};
+
+export interface ServerToClientEvents extends RoomEventListeners {
+  [SocketEvents.ERROR]: (error: SocketErrorPayload) => void;
+  // The server is shutting down; reconnect to reach another instance
+  [SocketEvents.SERVER_DRAINING]: () => void;
+  // Typing is transient, so it isn't numbered or kept for catching up. It
+  // also reaches participants who haven't joined the room.
+  [SocketEvents.USER_TYPING]: (payload: TypingEventPayload) => void;
+  [SocketEvents.USER_STOP_TYPING]: (payload: TypingEventPayload) => void;
+  [SocketEvents.USER_ONLINE]: (payload: PresenceEventPayload) => void;
+  [SocketEvents.USER_OFFLINE]: (payload: PresenceEventPayload) => void;
+}
+
+export interface ClientToServerEvents {
+  [SocketEvents.NEW_MESSAGE]: (
+    message: RelayMessagePayload,
+    ack: (response: MessageAckResponse) => void
+  ) => void;
+  [SocketEvents.SEND_MESSAGE]: (
+    payload: SendMessagePayload,
+    ack: (response: SendMessageAckResponse) => void
+  ) => void;
+  [SocketEvents.EDIT_MESSAGE]: (
+    payload: EditMessagePayload,
+    ack: (response: EditMessageAckResponse) => void
+  ) => void;
+  [SocketEvents.MESSAGE_EDITED]: (
+    payload: MessageEditPayload,
+    ack: (response: AckResponse) => void
+  ) => void;
+  [SocketEvents.DELETE_MESSAGE]: (
+    payload: DeleteMessagePayload,
+    ack: (response: DeleteMessageAckResponse) => void
+  ) => void;
+  [SocketEvents.MESSAGE_DELETED]: (
+    payload: MessageDeletePayload,
+    ack: (response: AckResponse) => void
+  ) => void;
+  [SocketEvents.UPDATE_REACTION]: (
+    payload: UpdateReactionPayload,
+    ack: (response: UpdateReactionAckResponse) => void
+  ) => void;
+  [SocketEvents.REACTION_UPDATED]: (
+    payload: UpdateReactionPayload,
+    ack: (response: AckResponse) => void
+  ) => void;
+  [SocketEvents.USER_TYPING]: (payload: ConversationRefPayload) => void;
+  [SocketEvents.USER_STOP_TYPING]: (payload: ConversationRefPayload) => void;
+  [SocketEvents.MESSAGE_READ]: (payload: MessageReceiptPayload) => void;
+  [SocketEvents.MESSAGE_DELIVERED]: (payload: MessageReceiptPayload) => void;
+  [SocketEvents.JOIN_CONVERSATION]: (
+    payload: JoinConversationPayload,
+    ack: (response: JoinAckResponse) => void
+  ) => void;
+  [SocketEvents.LEAVE_CONVERSATION]: (payload: ConversationRefPayload) => void;
+  [SocketEvents.GET_ONLINE_USERS]: (
+    ack: (response: OnlineUsersAckResponse) => void
+  ) => void;
+}
+
+// Client events that only carry an acknowledgement callback
+type PayloadlessClientEvent = typeof SocketEvents.GET_ONLINE_USERS;
+
+/**
+ * Identity attached to every socket once its handshake token is verified
+ */
+export interface AuthenticatedUser {
+  uid: string;
+  displayName?: string;
+  email?: string;
+}
+
+/**
+ * Data stored on `socket.data` for the lifetime of a connection
+ */
+export interface SocketData {
+  user: AuthenticatedUser;
+}
+
+/**
+ * Schema for each client event that carries a payload
+ */
+export const clientEventSchemas = {
+  [SocketEvents.NEW_MESSAGE]: relayMessageSchema,
+  [SocketEvents.SEND_MESSAGE]: sendMessageSchema,
+  [SocketEvents.EDIT_MESSAGE]: editMessageSchema,
+  [SocketEvents.MESSAGE_EDITED]: messageEditSchema,
+  [SocketEvents.DELETE_MESSAGE]: deleteMessageSchema,
+  [SocketEvents.MESSAGE_DELETED]: messageDeleteSchema,
+  [SocketEvents.UPDATE_REACTION]: updateReactionSchema,
+  [SocketEvents.REACTION_UPDATED]: updateReactionSchema,
+  [SocketEvents.USER_TYPING]: conversationRefSchema,
+  [SocketEvents.USER_STOP_TYPING]: conversationRefSchema,
+  [SocketEvents.MESSAGE_READ]: messageReceiptSchema,
+  [SocketEvents.MESSAGE_DELIVERED]: messageReceiptSchema,
+  [SocketEvents.JOIN_CONVERSATION]: joinConversationSchema,
+  [SocketEvents.LEAVE_CONVERSATION]: conversationRefSchema,
+} satisfies Record<
+  Exclude<keyof ClientToServerEvents, PayloadlessClientEvent>,
+  z.ZodTypeAny
+>;
+
+export type ValidatedClientEvent = keyof typeof clientEventSchemas;
+
+export type ClientEventPayload<E extends ValidatedClientEvent> = z.infer<
+  (typeof clientEventSchemas)[E]
+>;
+
+export type ClientPayloadParseResult<E extends ValidatedClientEvent> =
+  | { success: true; data: ClientEventPayload<E> }
+  | { success: false; error: SocketErrorPayload };
+
+/**
+ * Validate a client payload against its schema. Failures are turned into the
+ * error payload the server sends back to the offending socket.
+ */
+export const parseClientPayload = <E extends ValidatedClientEvent>(
+  event: E,
+  payload: unknown
+): ClientPayloadParseResult<E> => {
+  const schema: z.ZodTypeAny = clientEventSchemas[event];
+  const result = schema.safeParse(payload);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    error: {
+      code: SocketErrorCodes.INVALID_PAYLOAD,
+      message: result.error.issues
+        .map(
+          (issue) => `${issue.path.join('.') || 'payload'}: ${issue.message}`
+        )
+        .join('; '),
+      event,
+    },
+  };
+};
@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/hooks/useAuth';
 import { ChatContainer } from '@/components/chat/ChatContainer';
+import { ThreadPanel } from '@/components/chat/ThreadPanel';
 import { LoadingSpinner } from '@/components/shared/LoadingSpinner';
 
 export default function ChatPage() {
@@ -35,7 +36,14 @@ export default function ChatPage() {
 
   // Show ChatContainer immediately if authenticated and initial load complete
   if (user && !isInitialLoad) {
-    return <ChatContainer />;
+    return (
+      <div className='flex h-full'>
+        <div className='min-w-0 flex-1'>
+          <ChatContainer />
+        </div>
+        <ThreadPanel />
+      </div>
+    );
   }
 
   // Show appropriate loading message
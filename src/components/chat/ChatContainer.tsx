@@ -4,7 +4,9 @@ import { useState, useCallback, useRef } from 'react';
 import { ChatHeader } from './ChatHeader';
 import { MessageList } from './MessageList';
 import { ChatInput } from './ChatInput';
-import { useChat } from '@/hooks';
+import { TypingIndicator } from './TypingIndicator';
+import { useChat, useTypingUsers } from '@/hooks';
+import { useSideNav } from '@/context/SideNavContext';
 
 const StableWrapper = ({ children }: { children: React.ReactNode }) => {
   return <>{children}</>;
@@ -17,8 +19,13 @@ export function ChatContainer() {
     messagesLoading,
     fetchMessages,
     sendMessage,
+    replyingTo,
+    setReplyingTo,
     sendAIMessage,
+    setTyping,
   } = useChat();
+  const { getParticipantDisplayName } = useSideNav();
+  const typingUserIds = useTypingUsers(activeConversation?.id);
   const messageListRef = useRef<HTMLDivElement>(null);
   const inputContainerRef = useRef<HTMLDivElement>(null);
 
@@ -35,6 +42,8 @@ export function ChatContainer() {
     [sendMessage]
   );
 
+  const cancelReply = useCallback(() => setReplyingTo(null), [setReplyingTo]);
+
   const stableSendAIMessage = useCallback(
     async (message: string, aiRecipientId: string) => {
       try {
@@ -72,6 +81,10 @@ export function ChatContainer() {
         />
       </div>
 
+      <TypingIndicator
+        names={typingUserIds.map((id) => getParticipantDisplayName(id))}
+      />
+
       <div ref={inputContainerRef}>
         <StableWrapper>
           <ChatInput
@@ -79,6 +92,9 @@ export function ChatContainer() {
             loading={messagesLoading}
             sendMessage={stableSendMessage}
             sendAIMessage={stableSendAIMessage}
+            setTyping={setTyping}
+            replyingTo={replyingTo}
+            cancelReply={cancelReply}
           />
         </StableWrapper>
       </div>
@@ -1,27 +1,42 @@
 'use client';
 
-import { useState, useRef, useEffect, memo } from 'react';
-import { Send, Paperclip, Mic, Smile } from 'lucide-react';
-import { Conversation } from '@/types';
+import { useState, useRef, useEffect, useCallback, memo } from 'react';
+import { Send, Paperclip, Mic, Smile, X } from 'lucide-react';
+import { Conversation, Message } from '@/types';
+import { useSideNav } from '@/context/SideNavContext';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { cn } from '@/lib/utils';
+import { ReplyQuote } from './ReplyQuote';
 
 interface ChatInputProps {
   activeConversation: Conversation | null;
   loading: boolean;
   sendMessage: (content: string) => Promise<void>;
   sendAIMessage: (message: string, aiRecipientId: string) => Promise<void>;
+  setTyping: (conversationId: string, isTyping: boolean) => void;
+  // Quoted above the input until the reply is sent or dismissed
+  replyingTo: Message | null;
+  cancelReply: () => void;
 }
 
+// Stop typing after this long without a keystroke
+const TYPING_IDLE_TIMEOUT = 3000;
+// Re-send "typing" while the user keeps typing so the server's expiry
+// (6s) never clears an indicator that is still accurate
+const TYPING_REFRESH_INTERVAL = 3000;
+
 export const ChatInput = memo(function ChatInput({
   activeConversation,
   loading,
   sendMessage,
   sendAIMessage,
+  setTyping,
+  replyingTo,
+  cancelReply,
 }: ChatInputProps) {
+  const { getParticipantDisplayName } = useSideNav();
   const [message, setMessage] = useState('');
-  const [isTyping, setIsTyping] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
   const inputRef = useRef<HTMLTextAreaElement>(null);
@@ -29,6 +44,51 @@ export const ChatInput = memo(function ChatInput({
   const focusIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const mutationObserverRef = useRef<MutationObserver | null>(null);
   const isReapplyingFocus = useRef(false);
+  // Conversation we last reported typing in, and when
+  const typingState = useRef<{
+    conversationId: string;
+    lastSentAt: number;
+  } | null>(null);
+  const typingIdleTimer = useRef<NodeJS.Timeout | null>(null);
+
+  const stopTyping = useCallback(() => {
+    if (typingIdleTimer.current) {
+      clearTimeout(typingIdleTimer.current);
+      typingIdleTimer.current = null;
+    }
+
+    if (typingState.current) {
+      setTyping(typingState.current.conversationId, false);
+      typingState.current = null;
+    }
+  }, [setTyping]);
+
+  const notifyTyping = (conversationId: string) => {
+    const now = Date.now();
+    const current = typingState.current;
+
+    if (
+      !current ||
+      current.conversationId !== conversationId ||
+      now - current.lastSentAt >= TYPING_REFRESH_INTERVAL
+    ) {
+      if (current && current.conversationId !== conversationId) {
+        setTyping(current.conversationId, false);
+      }
+      setTyping(conversationId, true);
+      typingState.current = { conversationId, lastSentAt: now };
+    }
+
+    if (typingIdleTimer.current) {
+      clearTimeout(typingIdleTimer.current);
+    }
+    typingIdleTimer.current = setTimeout(stopTyping, TYPING_IDLE_TIMEOUT);
+  };
+
+  // Stop typing when switching conversations or unmounting
+  useEffect(() => {
+    return stopTyping;
+  }, [activeConversation?.id, stopTyping]);
 
   useEffect(() => {
     if (inputRef.current) {
@@ -58,6 +118,7 @@ export const ChatInput = memo(function ChatInput({
     if (isReapplyingFocus.current) return;
 
     setIsFocused(false);
+    stopTyping();
 
     // Clear the focused flag
     try {
@@ -117,6 +178,11 @@ export const ChatInput = memo(function ChatInput({
     }
   }, [loading]);
 
+  // Starting a reply moves focus to the input
+  useEffect(() => {
+    if (replyingTo) inputRef.current?.focus();
+  }, [replyingTo]);
+
   // Determine if this is an AI chat
   const isAIChat = activeConversation?.isAIChat === true;
   const aiUserId = 'ai-assistant';
@@ -128,6 +194,7 @@ export const ChatInput = memo(function ChatInput({
     const trimmedMessage = message.trim();
     setMessage('');
     setIsSending(true);
+    stopTyping();
 
     try {
       console.log(
@@ -150,17 +217,8 @@ export const ChatInput = memo(function ChatInput({
         await sendMessage(trimmedMessage);
       }
     } catch (error) {
+      // Failed sends stay in the message list with retry/discard actions
       console.error('Error sending message:', error);
-
-      // Allow user to try again by restoring the message text
-      if (error && typeof error === 'object' && 'message' in error) {
-        if (
-          (error.message as string).includes('network') ||
-          (error.message as string).includes('timeout')
-        ) {
-          setMessage(trimmedMessage);
-        }
-      }
     } finally {
       setIsSending(false);
       // Make sure we keep focus after sending
@@ -177,6 +235,8 @@ export const ChatInput = memo(function ChatInput({
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage();
+    } else if (e.key === 'Escape' && replyingTo) {
+      cancelReply();
     }
   };
 
@@ -194,19 +254,34 @@ export const ChatInput = memo(function ChatInput({
     // Update last focus time since user is actively typing
     lastFocusTime.current = Date.now();
 
-    if (!isTyping && e.target.value) {
-      setIsTyping(true);
-      // Here you would notify the server that user is typing
-      // socketService.sendTypingNotification(true)
-    } else if (isTyping && !e.target.value) {
-      setIsTyping(false);
-      // Notify server user stopped typing
-      // socketService.sendTypingNotification(false)
+    // The AI assistant doesn't need to know we're typing
+    if (!activeConversation || isAIChat) return;
+
+    if (e.target.value) {
+      notifyTyping(activeConversation.id);
+    } else {
+      stopTyping();
     }
   };
 
   return (
     <div className='border-t bg-background p-4'>
+      {replyingTo && (
+        <ReplyQuote
+          reply={replyingTo}
+          senderName={getParticipantDisplayName(replyingTo.sender)}
+          className='mb-2'
+        >
+          <button
+            type='button'
+            className='shrink-0'
+            aria-label='Cancel reply'
+            onClick={cancelReply}
+          >
+            <X className='h-4 w-4' />
+          </button>
+        </ReplyQuote>
+      )}
       <div className='flex items-end gap-2'>
         <Button
           type='button'
@@ -0,0 +1,64 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Message, MessageVersion } from '@/types';
+import { getMessageHistory } from '@/lib/firebase/chat';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+
+interface EditHistoryProps {
+  message: Message;
+}
+
+// "(edited)" marker that lists the earlier versions of a message when opened
+export function EditHistory({ message }: EditHistoryProps) {
+  const [versions, setVersions] = useState<MessageVersion[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  // Loaded on every open, since the message may have been edited again
+  const loadHistory = (open: boolean) => {
+    if (!open) return;
+
+    setFailed(false);
+    getMessageHistory(message.conversationId, message.id)
+      .then(setVersions)
+      .catch(() => setFailed(true));
+  };
+
+  return (
+    <Popover onOpenChange={loadHistory}>
+      <PopoverTrigger
+        type='button'
+        className='mr-1 underline-offset-2 hover:underline'
+        onClick={(e) => e.stopPropagation()}
+      >
+        (edited)
+      </PopoverTrigger>
+      <PopoverContent className='w-72 p-3 text-xs' align='end'>
+        <p className='mb-2 font-semibold'>Edit history</p>
+        {failed ? (
+          <p className='text-muted-foreground'>Couldn&apos;t load history.</p>
+        ) : !versions ? (
+          <p className='text-muted-foreground'>Loading...</p>
+        ) : (
+          <ul className='space-y-2'>
+            {versions.map((version) => (
+              <li key={version.timestamp}>
+                <p className='break-words'>{version.content}</p>
+                <p className='text-muted-foreground'>
+                  {formatDistanceToNow(new Date(version.timestamp), {
+                    addSuffix: true,
+                  })}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,25 +1,104 @@
 'use client';
 
-import { useState } from 'react';
+import { KeyboardEvent, useMemo, useState } from 'react';
 import { formatDistanceToNow } from 'date-fns';
-import { Check, CheckCheck, Bot } from 'lucide-react';
+import {
+  Check,
+  CheckCheck,
+  Bot,
+  Clock,
+  CloudOff,
+  AlertCircle,
+  MoreHorizontal,
+} from 'lucide-react';
 import MarkdownContent from '@/components/shared/MarkdownContent';
 import { cn } from '@/lib/utils';
+import { handleError } from '@/lib/services/errorService';
+import { ErrorCategories } from '@/lib/utils/errorUtils';
 import { Message as MessageType } from '@/types';
 import { useAuth } from '@/hooks';
+import { useChatStore } from '@/store';
+import { useSideNav } from '@/context/SideNavContext';
+import {
+  canDeleteForEveryone,
+  getDeliveryStatus,
+  getRecipients,
+  hasUnreadThreadReplies,
+  isLocalOnly,
+} from '@/store/chat/utils/messageUtils';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { EditHistory } from './EditHistory';
+import { ReactionBar } from './ReactionBar';
+import { ReactionPicker } from './ReactionPicker';
+import { ReplyQuote } from './ReplyQuote';
+import { ThreadSummary } from './ThreadSummary';
+import { ReceiptDetails } from './ReceiptDetails';
 
 interface MessageProps {
   message: MessageType;
   isLastMessage?: boolean;
+  // Scrolls to the message a reply quotes
+  onJumpToMessage?: (messageId: string) => void;
+  // Whether the message a reply quotes has since been deleted
+  isQuoteDeleted?: boolean;
 }
 
-export function Message({ message, isLastMessage = false }: MessageProps) {
+export function Message({
+  message,
+  isLastMessage = false,
+  onJumpToMessage,
+  isQuoteDeleted = false,
+}: MessageProps) {
   const { user } = useAuth();
   const [showTime, setShowTime] = useState(false);
+  const retryMessage = useChatStore((state) => state.retryMessage);
+  const discardMessage = useChatStore((state) => state.discardMessage);
+  const editMessage = useChatStore((state) => state.editMessage);
+  const deleteMessageForMe = useChatStore((state) => state.deleteMessageForMe);
+  const deleteMessageForEveryone = useChatStore(
+    (state) => state.deleteMessageForEveryone
+  );
+  const toggleReaction = useChatStore((state) => state.toggleReaction);
+  const setReplyingTo = useChatStore((state) => state.setReplyingTo);
+  const isAIChat = useChatStore(
+    (state) => state.activeConversation?.isAIChat === true
+  );
+  const openThread = useChatStore((state) => state.openThread);
+  const threadReads = useChatStore(
+    (state) => state.activeConversation?.threadReads
+  );
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const participants = useChatStore(
+    (state) => state.activeConversation?.participants
+  );
+  const { getParticipantDisplayName } = useSideNav();
 
   const isSentByCurrentUser = user?.id === message.sender;
   const isAI = message.isAI;
+  const isFailed = message.status === 'failed';
+  const isDeleted = !!message.deletedAt;
+  const canEdit =
+    isSentByCurrentUser && !isAI && !isDeleted && !isLocalOnly(message);
+  const canDeleteForAll =
+    isSentByCurrentUser && !isAI && canDeleteForEveryone(message);
+  const canReact = !!user && !isDeleted && !isLocalOnly(message);
+  const canReply = canReact && !isAIChat;
+
+  const recipients = useMemo(
+    () => (participants ? getRecipients(message, participants) : []),
+    [message, participants]
+  );
+  // Delivered and read only once every recipient got that far
+  const status = getDeliveryStatus(message, recipients);
 
   // Format message timestamp with validation to prevent invalid date errors
   const formattedTime = (() => {
@@ -49,10 +128,66 @@ export function Message({ message, isLastMessage = false }: MessageProps) {
     }
   })();
 
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    setIsEditing(false);
+    if (!user) return;
+
+    editMessage(message.id, user.id, draft).catch((error) =>
+      handleError(error, ErrorCategories.FIREBASE, {
+        context: { messageId: message.id },
+      })
+    );
+  };
+
+  const reportDeleteError = (error: unknown) =>
+    handleError(error, ErrorCategories.FIREBASE, {
+      context: { messageId: message.id },
+    });
+
+  const deleteForMe = () => {
+    if (!user) return;
+    deleteMessageForMe(message.id, user.id).catch(reportDeleteError);
+  };
+
+  const deleteForEveryone = () => {
+    if (!user) return;
+    deleteMessageForEveryone(message.id, user.id).catch(reportDeleteError);
+  };
+
+  const react = (emoji: string) => {
+    if (!user) return;
+    toggleReaction(message.id, user.id, emoji).catch((error) =>
+      handleError(error, ErrorCategories.FIREBASE, {
+        context: { messageId: message.id },
+      })
+    );
+  };
+
+  // Enter saves and Escape cancels, like sending a message
+  const handleEditKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      saveEdit();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
+
   // Get status icon based on message status
   const getStatusIcon = () => {
-    if (isSentByCurrentUser) {
-      switch (message.status) {
+    if (isSentByCurrentUser && !isDeleted) {
+      switch (status) {
+        case 'queued':
+          return <CloudOff className='h-3 w-3 text-muted-foreground' />;
+        case 'pending':
+          return <Clock className='h-3 w-3 text-muted-foreground' />;
+        case 'failed':
+          return <AlertCircle className='h-3 w-3 text-destructive' />;
         case 'sent':
           return <Check className='h-3 w-3 text-muted-foreground' />;
         case 'delivered':
@@ -87,28 +222,219 @@ export function Message({ message, isLastMessage = false }: MessageProps) {
         </Avatar>
       )}
 
+      {canReact && !isEditing && isSentByCurrentUser && (
+        <ReactionPicker onSelect={react} />
+      )}
+
       <div
         className={cn(
-          'rounded-lg px-4 py-2 max-w-[80%] text-sm',
-          isSentByCurrentUser
-            ? 'bg-primary text-primary-foreground'
-            : 'bg-muted'
+          'flex max-w-[80%] flex-col',
+          isSentByCurrentUser ? 'items-end' : 'items-start'
         )}
       >
-        <div className='break-words'>
-          <MarkdownContent content={message.content} isAI={isAI} />
-        </div>
-
         <div
           className={cn(
-            'flex items-center mt-1 text-xs opacity-0 transition-opacity',
-            (showTime || isLastMessage) && 'opacity-70 group-hover:opacity-100'
+            'rounded-lg px-4 py-2 text-sm',
+            isSentByCurrentUser
+              ? 'bg-primary text-primary-foreground'
+              : 'bg-muted',
+            (message.status === 'pending' || message.status === 'queued') &&
+              'opacity-70',
+            isFailed && 'ring-1 ring-destructive'
           )}
         >
-          <span className='mr-1'>{formattedTime}</span>
-          {getStatusIcon()}
+          {message.replyTo && !isDeleted && (
+            <ReplyQuote
+              reply={message.replyTo}
+              senderName={getParticipantDisplayName(message.replyTo.sender)}
+              isDeleted={isQuoteDeleted}
+              onClick={
+                onJumpToMessage
+                  ? () => onJumpToMessage(message.replyTo!.id)
+                  : undefined
+              }
+              className='mb-1'
+            />
+          )}
+
+          {isEditing ? (
+            <div className='space-y-2' onClick={(e) => e.stopPropagation()}>
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleEditKeyDown}
+                aria-label='Edit message'
+                className='min-h-[60px] bg-background text-foreground'
+                autoFocus
+              />
+              <div className='flex justify-end gap-2'>
+                <Button
+                  type='button'
+                  size='sm'
+                  variant='ghost'
+                  onClick={() => setIsEditing(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type='button'
+                  size='sm'
+                  variant='secondary'
+                  onClick={saveEdit}
+                  disabled={!draft.trim()}
+                >
+                  Save
+                </Button>
+              </div>
+            </div>
+          ) : isDeleted ? (
+            <p className='italic opacity-70'>This message was deleted</p>
+          ) : (
+            <div className='break-words'>
+              <MarkdownContent content={message.content} isAI={isAI} />
+            </div>
+          )}
+
+          <div
+            className={cn(
+              'flex items-center mt-1 text-xs opacity-0 transition-opacity',
+              (showTime || isLastMessage) &&
+                'opacity-70 group-hover:opacity-100'
+            )}
+          >
+            <span className='mr-1'>{formattedTime}</span>
+            {message.editedAt && !isDeleted && (
+              <EditHistory message={message} />
+            )}
+            {!isEditing && !isLocalOnly(message) && (
+              <DropdownMenu>
+                <DropdownMenuTrigger
+                  className='mr-1'
+                  aria-label='Message options'
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <MoreHorizontal className='h-3 w-3' />
+                </DropdownMenuTrigger>
+                <DropdownMenuContent
+                  align='end'
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  {canReply && (
+                    <DropdownMenuItem onSelect={() => setReplyingTo(message)}>
+                      Reply
+                    </DropdownMenuItem>
+                  )}
+                  {canReply && (
+                    <DropdownMenuItem
+                      onSelect={() =>
+                        openThread(message.conversationId, message.id)
+                      }
+                    >
+                      Reply in thread
+                    </DropdownMenuItem>
+                  )}
+                  {canEdit && (
+                    <DropdownMenuItem onSelect={startEditing}>
+                      Edit
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onSelect={deleteForMe}>
+                    Delete for me
+                  </DropdownMenuItem>
+                  {canDeleteForAll && (
+                    <DropdownMenuItem
+                      className='text-destructive focus:text-destructive'
+                      onSelect={deleteForEveryone}
+                    >
+                      Delete for everyone
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {isSentByCurrentUser &&
+            !isDeleted &&
+            recipients.length > 0 &&
+            !isLocalOnly(message) ? (
+              <ReceiptDetails
+                message={message}
+                recipients={recipients}
+                getDisplayName={getParticipantDisplayName}
+              >
+                {getStatusIcon()}
+              </ReceiptDetails>
+            ) : (
+              getStatusIcon()
+            )}
+          </div>
+
+          {message.status === 'queued' && isSentByCurrentUser && (
+            <div className='flex items-center gap-2 mt-1 text-xs'>
+              <span>Queued, will send when you&apos;re back online.</span>
+              <button
+                type='button'
+                className='underline'
+                onClick={(e) => {
+                  e.stopPropagation();
+                  discardMessage(message.id);
+                }}
+              >
+                Discard
+              </button>
+            </div>
+          )}
+
+          {isFailed && isSentByCurrentUser && (
+            <div className='flex items-center gap-2 mt-1 text-xs'>
+              <span>Not sent.</span>
+              <button
+                type='button'
+                className='underline font-medium'
+                onClick={(e) => {
+                  e.stopPropagation();
+                  retryMessage(message.id);
+                }}
+              >
+                Retry
+              </button>
+              <button
+                type='button'
+                className='underline'
+                onClick={(e) => {
+                  e.stopPropagation();
+                  discardMessage(message.id);
+                }}
+              >
+                Discard
+              </button>
+            </div>
+          )}
         </div>
+
+        {!isDeleted && (
+          <ReactionBar
+            message={message}
+            currentUserId={user?.id}
+            getDisplayName={getParticipantDisplayName}
+            onToggle={react}
+          />
+        )}
+
+        {!!message.thread?.replyCount && (
+          <ThreadSummary
+            thread={message.thread}
+            getDisplayName={getParticipantDisplayName}
+            hasUnread={
+              !!user && hasUnreadThreadReplies(message, user.id, threadReads)
+            }
+            onOpen={() => openThread(message.conversationId, message.id)}
+          />
+        )}
       </div>
+
+      {canReact && !isEditing && !isSentByCurrentUser && (
+        <ReactionPicker onSelect={react} />
+      )}
     </div>
   );
 }
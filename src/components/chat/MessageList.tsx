@@ -1,10 +1,17 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Message as MessageType, Conversation } from '@/types';
+import { useReadTracking } from '@/hooks';
+import { cn } from '@/lib/utils';
 import { Message } from './Message';
 import { Skeleton } from '@/components/ui/skeleton';
 
+// How long a message stays highlighted after jumping to it
+const HIGHLIGHT_DURATION_MS = 2000;
+// Give up on a jump if the message still isn't shown by then
+const JUMP_TIMEOUT_MS = 5000;
+
 interface MessageListProps {
   messages: MessageType[];
   loading: boolean;
@@ -21,8 +28,11 @@ export function MessageList({
   fetchMessages,
 }: MessageListProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
   const previousMessageCount = useRef(0);
   const [localMessages, setLocalMessages] = useState(messages);
+  const [jumpTarget, setJumpTarget] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
 
   useEffect(() => {
     setLocalMessages(messages);
@@ -35,12 +45,57 @@ export function MessageList({
     }
   }, [messages]);
 
+  // Messages deleted for everyone, so replies can show their quote as deleted
+  const deletedIds = useMemo(
+    () => new Set(localMessages.filter((m) => m.deletedAt).map((m) => m.id)),
+    [localMessages]
+  );
+
   useEffect(() => {
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
   }, [localMessages]);
 
+  // Scroll to the message a reply quotes once it is shown, then highlight it
+  useEffect(() => {
+    if (!jumpTarget) return;
+
+    const element = containerRef.current?.querySelector(
+      `[data-message-id="${CSS.escape(jumpTarget)}"]`
+    );
+    if (!element) {
+      const timer = setTimeout(() => setJumpTarget(null), JUMP_TIMEOUT_MS);
+      return () => clearTimeout(timer);
+    }
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(jumpTarget);
+    setJumpTarget(null);
+  }, [jumpTarget, localMessages]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+
+    const timer = setTimeout(
+      () => setHighlightedId(null),
+      HIGHLIGHT_DURATION_MS
+    );
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  // Conversations are loaded whole rather than in pages, so a message that
+  // isn't shown yet is refetched
+  const jumpToMessage = (messageId: string) => {
+    setJumpTarget(messageId);
+    if (!localMessages.some((m) => m.id === messageId)) {
+      fetchMessages();
+    }
+  };
+
+  // Mark messages read as they scroll into view
+  useReadTracking(containerRef, activeConversation?.id, localMessages);
+
   const hasInitialFetchRef = useRef<string | null>(null);
 
   useEffect(() => {
@@ -125,7 +180,7 @@ export function MessageList({
   }
 
   return (
-    <div className='flex-1 p-4 overflow-y-auto'>
+    <div ref={containerRef} className='flex-1 p-4 overflow-y-auto'>
       {/* Show refresh indicator */}
       {isRefreshing && (
         <div className='text-xs text-center mb-2 text-muted-foreground'>
@@ -137,11 +192,23 @@ export function MessageList({
 
       <div className='space-y-2'>
         {localMessages.map((message, index) => (
-          <Message
+          <div
             key={message.id}
-            message={message}
-            isLastMessage={index === localMessages.length - 1}
-          />
+            data-message-id={message.id}
+            className={cn(
+              'rounded-lg transition-colors duration-500',
+              highlightedId === message.id && 'bg-primary/10'
+            )}
+          >
+            <Message
+              message={message}
+              isLastMessage={index === localMessages.length - 1}
+              onJumpToMessage={jumpToMessage}
+              isQuoteDeleted={
+                !!message.replyTo && deletedIds.has(message.replyTo.id)
+              }
+            />
+          </div>
         ))}
       </div>
       <div ref={messagesEndRef} />
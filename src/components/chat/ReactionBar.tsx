@@ -0,0 +1,65 @@
+'use client';
+
+import { Message } from '@/types';
+import { cn } from '@/lib/utils';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+
+interface ReactionBarProps {
+  message: Message;
+  currentUserId?: string;
+  getDisplayName: (userId: string) => string;
+  onToggle: (emoji: string) => void;
+}
+
+// Each emoji someone reacted with and how many did, under the bubble. Hovering
+// one lists who reacted; clicking it adds or removes your own reaction.
+export function ReactionBar({
+  message,
+  currentUserId,
+  getDisplayName,
+  onToggle,
+}: ReactionBarProps) {
+  const reactions = Object.entries(message.reactions ?? {}).filter(
+    ([, userIds]) => userIds.length > 0
+  );
+  if (!reactions.length) return null;
+
+  return (
+    <div className='mt-1 flex flex-wrap gap-1'>
+      {reactions.map(([emoji, userIds]) => {
+        const reacted = !!currentUserId && userIds.includes(currentUserId);
+        const names = userIds.map((id) =>
+          id === currentUserId ? 'You' : getDisplayName(id)
+        );
+
+        return (
+          <Tooltip key={emoji}>
+            <TooltipTrigger asChild>
+              <button
+                type='button'
+                className={cn(
+                  'flex items-center gap-1 rounded-full border bg-background px-2 py-0.5 text-xs text-foreground',
+                  reacted && 'border-primary bg-primary/10'
+                )}
+                aria-pressed={reacted}
+                aria-label={`${emoji} ${userIds.length}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggle(emoji);
+                }}
+              >
+                <span>{emoji}</span>
+                <span>{userIds.length}</span>
+              </button>
+            </TooltipTrigger>
+            <TooltipContent>{names.join(', ')}</TooltipContent>
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+}
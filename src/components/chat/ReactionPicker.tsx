@@ -0,0 +1,40 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+
+// Offered when hovering a message
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+interface ReactionPickerProps {
+  onSelect: (emoji: string) => void;
+  className?: string;
+}
+
+// Row of quick reactions, shown while the message is hovered or focused
+export function ReactionPicker({ onSelect, className }: ReactionPickerProps) {
+  return (
+    <div
+      className={cn(
+        'flex gap-0.5 self-center rounded-full border bg-background px-1 py-0.5 opacity-0 shadow-sm transition-opacity group-hover:opacity-100 focus-within:opacity-100',
+        className
+      )}
+      role='toolbar'
+      aria-label='Add reaction'
+    >
+      {QUICK_REACTIONS.map((emoji) => (
+        <button
+          key={emoji}
+          type='button'
+          className='rounded-full px-1 text-base transition-transform hover:scale-125'
+          aria-label={`React with ${emoji}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            onSelect(emoji);
+          }}
+        >
+          {emoji}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Message } from '@/types';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+
+interface ReceiptDetailsProps {
+  message: Message;
+  recipients: string[];
+  getDisplayName: (userId: string) => string;
+  // The status icon, which opens the details
+  children: ReactNode;
+}
+
+const formatReceipt = (userId: string, message: Message): string => {
+  const receipt = message.receipts?.[userId];
+  if (receipt?.readAt) {
+    return `Read ${formatDistanceToNow(new Date(receipt.readAt), {
+      addSuffix: true,
+    })}`;
+  }
+  if (receipt?.deliveredAt) {
+    return `Delivered ${formatDistanceToNow(new Date(receipt.deliveredAt), {
+      addSuffix: true,
+    })}`;
+  }
+  return 'Not delivered yet';
+};
+
+// "Seen by 2 of 3" with each recipient's delivery and read time
+export function ReceiptDetails({
+  message,
+  recipients,
+  getDisplayName,
+  children,
+}: ReceiptDetailsProps) {
+  const seenCount = recipients.filter(
+    (id) => message.receipts?.[id]?.readAt
+  ).length;
+
+  return (
+    <Popover>
+      <PopoverTrigger
+        type='button'
+        className='inline-flex'
+        aria-label='Show who has seen this message'
+        onClick={(e) => e.stopPropagation()}
+      >
+        {children}
+      </PopoverTrigger>
+      <PopoverContent className='w-64 p-3 text-xs' align='end'>
+        <p className='mb-2 font-semibold'>
+          {recipients.length === 1
+            ? seenCount === 1
+              ? 'Seen'
+              : 'Not seen yet'
+            : `Seen by ${seenCount} of ${recipients.length}`}
+        </p>
+        <ul className='space-y-1'>
+          {recipients.map((id) => (
+            <li key={id} className='flex justify-between gap-2'>
+              <span className='truncate'>{getDisplayName(id)}</span>
+              <span className='shrink-0 text-muted-foreground'>
+                {formatReceipt(id, message)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { MessageReply } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface ReplyQuoteProps {
+  reply: MessageReply;
+  senderName: string;
+  // Set when the original was deleted for everyone since the reply was sent
+  isDeleted?: boolean;
+  // Jumps to the original when given
+  onClick?: () => void;
+  // Extra controls on the right, like a dismiss button
+  children?: ReactNode;
+  className?: string;
+}
+
+// The quoted start of the message a reply refers to
+export function ReplyQuote({
+  reply,
+  senderName,
+  isDeleted = false,
+  onClick,
+  children,
+  className,
+}: ReplyQuoteProps) {
+  const quote = (
+    <>
+      <span className='block font-semibold'>{senderName}</span>
+      <span className='block truncate'>
+        {isDeleted ? (
+          <span className='italic'>This message was deleted</span>
+        ) : (
+          reply.content
+        )}
+      </span>
+    </>
+  );
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-2 rounded-md border-l-4 border-current bg-black/5 px-2 py-1 text-xs opacity-80',
+        className
+      )}
+    >
+      {onClick ? (
+        <button
+          type='button'
+          className='min-w-0 flex-1 text-left'
+          aria-label={`Go to the message from ${senderName}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            onClick();
+          }}
+        >
+          {quote}
+        </button>
+      ) : (
+        <div className='min-w-0 flex-1'>{quote}</div>
+      )}
+      {children}
+    </div>
+  );
+}
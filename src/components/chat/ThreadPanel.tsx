@@ -0,0 +1,197 @@
+'use client';
+
+import { KeyboardEvent, useEffect, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Send, X } from 'lucide-react';
+import MarkdownContent from '@/components/shared/MarkdownContent';
+import { handleError } from '@/lib/services/errorService';
+import { ErrorCategories } from '@/lib/utils/errorUtils';
+import { cn } from '@/lib/utils';
+import { Message as MessageType } from '@/types';
+import { useAuth } from '@/hooks';
+import { useChatStore } from '@/store';
+import { useSideNav } from '@/context/SideNavContext';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+
+interface ThreadMessageProps {
+  message: MessageType;
+  senderName: string;
+}
+
+function ThreadMessage({ message, senderName }: ThreadMessageProps) {
+  return (
+    <div
+      className={cn(
+        'flex items-start gap-2',
+        message.status === 'pending' && 'opacity-70'
+      )}
+    >
+      <Avatar className='h-7 w-7'>
+        <AvatarFallback className='text-xs'>
+          {senderName.charAt(0).toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <div className='min-w-0 flex-1 text-sm'>
+        <p className='text-xs'>
+          <span className='font-semibold'>{senderName}</span>{' '}
+          <span className='text-muted-foreground'>
+            {formatDistanceToNow(new Date(message.timestamp), {
+              addSuffix: true,
+            })}
+          </span>
+        </p>
+        {message.deletedAt ? (
+          <p className='italic text-muted-foreground'>
+            This message was deleted
+          </p>
+        ) : (
+          <div className='break-words'>
+            <MarkdownContent content={message.content} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Side panel with the thread started from a message, next to the chat
+export function ThreadPanel() {
+  const { user } = useAuth();
+  const { getParticipantDisplayName } = useSideNav();
+  const activeThread = useChatStore((state) => state.activeThread);
+  const activeConversationId = useChatStore(
+    (state) => state.activeConversation?.id
+  );
+  const threadMessages = useChatStore((state) => state.threadMessages);
+  const threadLoading = useChatStore((state) => state.threadLoading);
+  const root = useChatStore((state) =>
+    state.messages.find((m) => m.id === state.activeThread?.threadId)
+  );
+  const closeThread = useChatStore((state) => state.closeThread);
+  const sendThreadReply = useChatStore((state) => state.sendThreadReply);
+  const initThreadListener = useChatStore((state) => state.initThreadListener);
+  const markThreadRead = useChatStore((state) => state.markThreadRead);
+  const [draft, setDraft] = useState('');
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+
+  const conversationId = activeThread?.conversationId;
+  const threadId = activeThread?.threadId;
+  // A thread from another conversation stays closed
+  const isOpen = !!threadId && conversationId === activeConversationId;
+
+  useEffect(() => {
+    if (!isOpen || !conversationId || !threadId) return;
+    return initThreadListener(conversationId, threadId);
+  }, [isOpen, conversationId, threadId, initThreadListener]);
+
+  // Replies count as read while the panel is open and the tab is focused
+  useEffect(() => {
+    if (!isOpen || !user) return;
+
+    const markRead = () => {
+      if (document.visibilityState === 'visible' && document.hasFocus()) {
+        markThreadRead(user.id);
+      }
+    };
+    markRead();
+
+    window.addEventListener('focus', markRead);
+    return () => window.removeEventListener('focus', markRead);
+  }, [isOpen, user, threadMessages, markThreadRead]);
+
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [threadMessages.length]);
+
+  if (!isOpen) return null;
+
+  const send = () => {
+    if (!user || !draft.trim()) return;
+
+    const content = draft;
+    setDraft('');
+    sendThreadReply(user.id, content).catch((error) => {
+      setDraft(content);
+      handleError(error, ErrorCategories.FIREBASE, {
+        context: { threadId },
+      });
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      send();
+    } else if (e.key === 'Escape') {
+      closeThread();
+    }
+  };
+
+  return (
+    <aside className='flex h-full w-80 shrink-0 flex-col border-l bg-background'>
+      <div className='flex items-center justify-between border-b p-4'>
+        <h2 className='font-semibold'>Thread</h2>
+        <Button
+          type='button'
+          size='icon'
+          variant='ghost'
+          className='h-8 w-8 rounded-full'
+          onClick={closeThread}
+        >
+          <X className='h-4 w-4' />
+          <span className='sr-only'>Close thread</span>
+        </Button>
+      </div>
+
+      <div className='flex-1 space-y-4 overflow-y-auto p-4'>
+        {root && (
+          <div className='border-b pb-4'>
+            <ThreadMessage
+              message={root}
+              senderName={getParticipantDisplayName(root.sender)}
+            />
+          </div>
+        )}
+
+        {threadLoading && threadMessages.length === 0 ? (
+          <Skeleton className='h-12 w-full rounded-lg' />
+        ) : (
+          threadMessages.map((message) => (
+            <ThreadMessage
+              key={message.id}
+              message={message}
+              senderName={getParticipantDisplayName(message.sender)}
+            />
+          ))
+        )}
+        <div ref={repliesEndRef} />
+      </div>
+
+      <div className='flex items-end gap-2 border-t p-4'>
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder='Reply in thread...'
+          aria-label='Reply in thread'
+          className='max-h-32 min-h-[40px] resize-none'
+          rows={1}
+          disabled={!root || !!root.deletedAt}
+        />
+        <Button
+          type='button'
+          size='icon'
+          className='h-10 w-10 shrink-0 rounded-full'
+          disabled={!draft.trim() || !root || !!root.deletedAt}
+          onClick={send}
+        >
+          <Send className='h-4 w-4' />
+          <span className='sr-only'>Send reply</span>
+        </Button>
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { formatDistanceToNow } from 'date-fns';
+import { MessageThread } from '@/types';
+import { cn } from '@/lib/utils';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+
+interface ThreadSummaryProps {
+  thread: MessageThread;
+  getDisplayName: (userId: string) => string;
+  // Someone else replied since the user last read the thread
+  hasUnread: boolean;
+  onOpen: () => void;
+}
+
+// "3 replies" under a message that started a thread, with the latest
+// repliers' avatars. Opens the thread panel.
+export function ThreadSummary({
+  thread,
+  getDisplayName,
+  hasUnread,
+  onOpen,
+}: ThreadSummaryProps) {
+  return (
+    <button
+      type='button'
+      className='mt-1 flex items-center gap-2 rounded-md px-1 py-0.5 text-xs hover:bg-muted'
+      onClick={(e) => {
+        e.stopPropagation();
+        onOpen();
+      }}
+    >
+      <span className='flex -space-x-1.5'>
+        {thread.lastRepliers.map((userId) => (
+          <Avatar key={userId} className='h-5 w-5 border-2 border-background'>
+            <AvatarFallback className='text-[10px]'>
+              {getDisplayName(userId).charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+        ))}
+      </span>
+      <span
+        className={cn('font-medium text-primary', hasUnread && 'font-bold')}
+      >
+        {thread.replyCount === 1 ? '1 reply' : `${thread.replyCount} replies`}
+      </span>
+      <span className='text-muted-foreground'>
+        {formatDistanceToNow(new Date(thread.lastReplyAt), { addSuffix: true })}
+      </span>
+      {hasUnread && (
+        <span
+          className='h-2 w-2 rounded-full bg-primary'
+          aria-label='Unread replies'
+        />
+      )}
+    </button>
+  );
+}
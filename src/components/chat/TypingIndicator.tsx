@@ -0,0 +1,38 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+
+interface TypingIndicatorProps {
+  names: string[];
+  className?: string;
+}
+
+// "X is typing…", "X and Y are typing…", "X and 2 others are typing…"
+export const formatTypingText = (names: string[]): string => {
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+
+  return `${names[0]} and ${names.length - 1} others are typing…`;
+};
+
+export function TypingIndicator({ names, className }: TypingIndicatorProps) {
+  if (names.length === 0) return null;
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-2 px-4 py-1 text-xs text-muted-foreground',
+        className
+      )}
+      aria-live='polite'
+    >
+      <span className='flex gap-0.5'>
+        <span className='h-1.5 w-1.5 rounded-full bg-muted-foreground animate-bounce [animation-delay:-0.3s]' />
+        <span className='h-1.5 w-1.5 rounded-full bg-muted-foreground animate-bounce [animation-delay:-0.15s]' />
+        <span className='h-1.5 w-1.5 rounded-full bg-muted-foreground animate-bounce' />
+      </span>
+      <span className='italic'>{formatTypingText(names)}</span>
+    </div>
+  );
+}
@@ -1,5 +1,13 @@
 export { ChatContainer } from './ChatContainer';
 export { ChatHeader } from './ChatHeader';
 export { ChatInput } from './ChatInput';
+export { EditHistory } from './EditHistory';
 export { Message } from './Message';
 export { MessageList } from './MessageList';
+export { ReactionBar } from './ReactionBar';
+export { ReactionPicker } from './ReactionPicker';
+export { ReceiptDetails } from './ReceiptDetails';
+export { ReplyQuote } from './ReplyQuote';
+export { ThreadPanel } from './ThreadPanel';
+export { ThreadSummary } from './ThreadSummary';
+export { TypingIndicator } from './TypingIndicator';
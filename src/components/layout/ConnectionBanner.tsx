@@ -0,0 +1,99 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, WifiOff, AlertTriangle } from 'lucide-react';
+import { useSocketStore } from '@/store';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+// Seconds left until `timestamp`, refreshed every second
+const useSecondsUntil = (timestamp: number | null): number => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (timestamp === null) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timestamp]);
+
+  return timestamp === null
+    ? 0
+    : Math.max(0, Math.ceil((timestamp - now) / 1000));
+};
+
+export function ConnectionBanner() {
+  const connection = useSocketStore((state) => state.connection);
+  const reconnectNow = useSocketStore((state) => state.reconnectNow);
+  const secondsUntilRetry = useSecondsUntil(
+    connection.status === 'reconnecting' ? connection.nextRetryAt : null
+  );
+
+  if (connection.status === 'idle' || connection.status === 'connected') {
+    return null;
+  }
+
+  const isError =
+    connection.status === 'failed' || connection.status === 'offline';
+
+  return (
+    <div
+      role='status'
+      className={cn(
+        'flex items-center justify-center gap-2 px-4 py-1.5 text-sm border-b',
+        isError
+          ? 'bg-destructive/10 text-destructive'
+          : 'bg-muted text-muted-foreground'
+      )}
+    >
+      {connection.status === 'connecting' && (
+        <>
+          <Loader2 className='h-4 w-4 animate-spin' />
+          <span>Connecting…</span>
+        </>
+      )}
+
+      {connection.status === 'reconnecting' && (
+        <>
+          <Loader2 className='h-4 w-4 animate-spin' />
+          <span>
+            Connection lost.{' '}
+            {secondsUntilRetry > 0
+              ? `Retrying in ${secondsUntilRetry}s`
+              : 'Retrying now'}{' '}
+            (attempt {connection.attempt})
+          </span>
+        </>
+      )}
+
+      {connection.status === 'offline' && (
+        <>
+          <WifiOff className='h-4 w-4' />
+          <span>
+            You&apos;re offline. Messages will be sent when you reconnect.
+          </span>
+        </>
+      )}
+
+      {connection.status === 'failed' && (
+        <>
+          <AlertTriangle className='h-4 w-4' />
+          <span>Couldn&apos;t connect: {connection.error}</span>
+        </>
+      )}
+
+      {connection.status !== 'connecting' && (
+        <Button
+          type='button'
+          variant='link'
+          size='sm'
+          className='h-auto p-0'
+          onClick={reconnectNow}
+        >
+          Reconnect now
+        </Button>
+      )}
+    </div>
+  );
+}
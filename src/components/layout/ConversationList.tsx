@@ -1,6 +1,7 @@
 import { Conversation, User } from '@/types';
 import { Button } from '@/components/ui/button';
 import MarkdownContent from '../shared/MarkdownContent';
+import { formatTypingText } from '../chat/TypingIndicator';
 import { Bot } from 'lucide-react';
 
 interface ConversationListProps {
@@ -10,8 +11,10 @@ interface ConversationListProps {
   forceShowEmpty: boolean;
   currentUserId?: string;
   participantUsers: Map<string, User>;
+  typingUsers: Record<string, string[]>;
   onConversationClick: (id: string) => void;
   getParticipantDisplayName: (conversation: Conversation) => string;
+  getUserDisplayName: (userId: string | null) => string;
   getOtherParticipant: (participants: string[]) => string | null;
   getInitials: (name: string) => string;
 }
@@ -21,10 +24,19 @@ export function ConversationList({
   activeConversation,
   conversationsLoading,
   forceShowEmpty,
+  currentUserId,
+  typingUsers,
   onConversationClick,
   getParticipantDisplayName,
+  getUserDisplayName,
   getInitials,
 }: ConversationListProps) {
+  // Names of the other users typing in a conversation, if any
+  const getTypingNames = (conversationId: string) =>
+    (typingUsers[conversationId] || [])
+      .filter((id) => id !== currentUserId)
+      .map((id) => getUserDisplayName(id));
+
   return (
     <div className='flex-1 overflow-auto py-2'>
       <div className='px-3 py-2'>
@@ -50,47 +62,58 @@ export function ConversationList({
 
       {!conversationsLoading && conversations.length > 0 && !forceShowEmpty && (
         <div className='space-y-1 px-1'>
-          {conversations.map((conversation) => (
-            <Button
-              key={conversation.id}
-              variant={
-                activeConversation?.id === conversation.id
-                  ? 'secondary'
-                  : 'ghost'
-              }
-              className='w-full justify-start gap-2 h-auto py-2 px-3'
-              onClick={() => onConversationClick(conversation.id)}
-            >
-              {/* Render conversation item content here */}
-              <div className='flex items-center gap-2 w-full'>
-                {/* Avatar or initials */}
-                <div className='w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center text-xs'>
-                  {getParticipantDisplayName(conversation) ===
-                  'AI Assistant' ? (
-                    <Bot className='h-5 w-5' />
-                  ) : (
-                    // Display initials of the participants
-                    getInitials(getParticipantDisplayName(conversation))
-                  )}
-                </div>
+          {conversations.map((conversation) => {
+            const typingNames = getTypingNames(conversation.id);
+
+            return (
+              <Button
+                key={conversation.id}
+                variant={
+                  activeConversation?.id === conversation.id
+                    ? 'secondary'
+                    : 'ghost'
+                }
+                className='w-full justify-start gap-2 h-auto py-2 px-3'
+                onClick={() => onConversationClick(conversation.id)}
+              >
+                {/* Render conversation item content here */}
+                <div className='flex items-center gap-2 w-full'>
+                  {/* Avatar or initials */}
+                  <div className='w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center text-xs'>
+                    {getParticipantDisplayName(conversation) ===
+                    'AI Assistant' ? (
+                      <Bot className='h-5 w-5' />
+                    ) : (
+                      // Display initials of the participants
+                      getInitials(getParticipantDisplayName(conversation))
+                    )}
+                  </div>
 
-                {/* Name and last message */}
-                <div className='flex-1 truncate'>
-                  <p className='truncate'>
-                    {getParticipantDisplayName(conversation)}
-                  </p>
-                  <span className='text-xs text-muted-foreground truncate'>
-                    <MarkdownContent
-                      content={
-                        conversation.lastMessage?.content || 'No messages yet'
-                      }
-                      isAI={conversation.isAIChat}
-                    />
-                  </span>
+                  {/* Name and last message */}
+                  <div className='flex-1 truncate'>
+                    <p className='truncate'>
+                      {getParticipantDisplayName(conversation)}
+                    </p>
+                    {typingNames.length > 0 ? (
+                      <span className='text-xs text-primary italic truncate'>
+                        {formatTypingText(typingNames)}
+                      </span>
+                    ) : (
+                      <span className='text-xs text-muted-foreground truncate'>
+                        <MarkdownContent
+                          content={
+                            conversation.lastMessage?.content ||
+                            'No messages yet'
+                          }
+                          isAI={conversation.isAIChat}
+                        />
+                      </span>
+                    )}
+                  </div>
                 </div>
-              </div>
-            </Button>
-          ))}
+              </Button>
+            );
+          })}
         </div>
       )}
     </div>
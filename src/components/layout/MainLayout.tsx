@@ -2,6 +2,8 @@
 
 import { Header } from './Header';
 import { SideNav } from './SideNav';
+import { ConnectionBanner } from './ConnectionBanner';
+import { NotificationToasts } from './NotificationToasts';
 import { useSidebar } from '@/hooks/useSidebar';
 
 interface MainLayoutProps {
@@ -18,6 +20,7 @@ export function MainLayout({ children }: MainLayoutProps) {
   return (
     <div className='flex flex-col h-screen'>
       <Header onMenuClick={toggleSidebar} />
+      <ConnectionBanner />
 
       <div className='flex flex-1 overflow-hidden'>
         {/* Desktop sidebar */}
@@ -41,6 +44,8 @@ export function MainLayout({ children }: MainLayoutProps) {
         {/* Main content */}
         <main className='flex-1 overflow-auto'>{children}</main>
       </div>
+
+      <NotificationToasts />
     </div>
   );
 }
@@ -0,0 +1,79 @@
+'use client';
+
+import { useEffect } from 'react';
+import { AlertCircle, Info, X } from 'lucide-react';
+import { useUIStore } from '@/store';
+import { Notification } from '@/types';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+const TOAST_DURATION = 5000;
+const MAX_TOASTS = 3;
+
+function Toast({
+  notification,
+  onDismiss,
+}: {
+  notification: Notification;
+  onDismiss: (id: string) => void;
+}) {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(notification.id), TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [notification.id, onDismiss]);
+
+  const isError = notification.type === 'error';
+  const Icon = isError ? AlertCircle : Info;
+
+  return (
+    <div
+      role={isError ? 'alert' : 'status'}
+      className={cn(
+        'flex items-start gap-2 rounded-md border bg-background p-3 text-sm shadow-md',
+        isError && 'border-destructive/50 text-destructive'
+      )}
+    >
+      <Icon className='h-4 w-4 mt-0.5 shrink-0' />
+      <span className='flex-1'>{notification.content}</span>
+      <Button
+        type='button'
+        variant='ghost'
+        size='icon'
+        className='h-5 w-5 shrink-0'
+        aria-label='Dismiss'
+        onClick={() => onDismiss(notification.id)}
+      >
+        <X className='h-3 w-3' />
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Shows unread notifications as toasts; dismissing one marks it as read
+ */
+export function NotificationToasts() {
+  const notifications = useUIStore((state) => state.notifications);
+  const markNotificationAsRead = useUIStore(
+    (state) => state.markNotificationAsRead
+  );
+
+  // Newest first, as stored
+  const unread = notifications
+    .filter((notification) => !notification.read)
+    .slice(0, MAX_TOASTS);
+
+  if (unread.length === 0) return null;
+
+  return (
+    <div className='fixed bottom-4 right-4 z-50 flex w-80 flex-col gap-2'>
+      {unread.map((notification) => (
+        <Toast
+          key={notification.id}
+          notification={notification}
+          onDismiss={markNotificationAsRead}
+        />
+      ))}
+    </div>
+  );
+}
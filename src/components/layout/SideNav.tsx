@@ -2,6 +2,7 @@
 
 import { useAuth } from '@/hooks/useAuth';
 import { useSideNav } from '@/context/SideNavContext';
+import { useSocketStore } from '@/store';
 import { ConversationList } from './ConversationList';
 import { Separator } from '@/components/ui/separator';
 import { SideNavHeader } from './SideNavHeader';
@@ -28,9 +29,11 @@ export function SideNav({ isMobile = false, onItemClick }: SideNavProps) {
     handleNewAiChat,
     handleSelectUser,
     getConversationName,
+    getParticipantDisplayName,
     getOtherParticipant,
     getInitials,
   } = useSideNav();
+  const typingUsers = useSocketStore((state) => state.typingUsers);
 
   const handleConversationClickWrapper = (id: string) => {
     handleConversationClick(id);
@@ -59,8 +62,10 @@ export function SideNav({ isMobile = false, onItemClick }: SideNavProps) {
           forceShowEmpty={forceShowEmpty}
           currentUserId={user?.id}
           participantUsers={participantUsers}
+          typingUsers={typingUsers}
           onConversationClick={handleConversationClickWrapper}
           getParticipantDisplayName={getConversationName}
+          getUserDisplayName={getParticipantDisplayName}
           getOtherParticipant={getOtherParticipant}
           getInitials={getInitials}
         />
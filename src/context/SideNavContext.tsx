@@ -39,6 +39,7 @@ interface SideNavContextType {
 
   // Utility functions
   getConversationName: (conversation: Conversation) => string;
+  getParticipantDisplayName: (userId: string | null) => string;
   getOtherParticipant: (participants: string[]) => string | null;
   getInitials: (name: string) => string;
 }
@@ -201,6 +202,7 @@ export const SideNavProvider = ({ children }: { children: ReactNode }) => {
 
         // Utility functions
         getConversationName,
+        getParticipantDisplayName,
         getOtherParticipant,
         getInitials,
       }}
@@ -1,6 +1,8 @@
 export { useAuth } from './useAuth';
 export { useChat } from './useChat';
 export { useParticipantData } from './useParticipantData';
+export { useReadTracking } from './useReadTracking';
+export { useTypingUsers } from './useTypingUsers';
 export {
   useErrorHandler,
   ErrorCategories,
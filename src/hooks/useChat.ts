@@ -1,6 +1,7 @@
-import { useEffect, useRef } from 'react';
-import { useChatStore, useAuthStore } from '@/store';
+import { useEffect, useMemo, useRef } from 'react';
+import { useChatStore, useAuthStore, useSocketStore } from '@/store';
 import { Conversation, Message } from '@/types';
+import { toReply } from '@/store/chat/utils/messageUtils';
 
 const activeListeners = {
   conversations: new Map<string, boolean>(),
@@ -10,7 +11,10 @@ const activeListeners = {
 interface UseChatReturn {
   conversations: Conversation[];
   activeConversation: Conversation | null;
+  // Without the ones the user deleted for themselves
   messages: Message[];
+  // The message being replied to in the active conversation
+  replyingTo: Message | null;
   conversationsLoading: boolean;
   messagesLoading: boolean;
   error: string | null;
@@ -21,16 +25,22 @@ interface UseChatReturn {
     isAIChat?: boolean
   ) => Promise<Conversation>;
   fetchMessages: () => Promise<void>;
+  // Sent as a reply to `replyingTo`, if set
   sendMessage: (content: string) => Promise<void>;
+  setReplyingTo: (message: Message | null) => void;
   sendAIMessage: (message: string, aiRecipientId: string) => Promise<void>;
+  setTyping: (conversationId: string, isTyping: boolean) => void;
 }
 
 export const useChat = (): UseChatReturn => {
   const user = useAuthStore((state) => state.user);
+  const joinConversation = useSocketStore((state) => state.joinConversation);
+  const leaveConversation = useSocketStore((state) => state.leaveConversation);
   const {
     conversations,
     activeConversation,
     messages,
+    replyingTo: replyTarget,
     conversationsLoading,
     messagesLoading,
     error,
@@ -39,7 +49,9 @@ export const useChat = (): UseChatReturn => {
     createNewConversation,
     fetchMessages: fetchAllMessages,
     sendMessage: sendMessageToConversation,
+    setReplyingTo,
     sendAIMessage: sendAIMessageToConversation,
+    setTyping,
     initConversationsListener,
     initMessagesListener,
   } = useChatStore();
@@ -141,6 +153,18 @@ export const useChat = (): UseChatReturn => {
 
     return cleanup;
   }, [activeConversation, fetchAllMessages, initMessagesListener]);
+  // Every instance of the hook holds the room; the socket store joins it once
+  // and rejoins it after reconnects, catching up on events missed in between
+  const activeConversationId = activeConversation?.id;
+  useEffect(() => {
+    if (!activeConversationId) return;
+
+    joinConversation(activeConversationId);
+
+    return () => {
+      leaveConversation(activeConversationId);
+    };
+  }, [activeConversationId, joinConversation, leaveConversation]);
   useEffect(() => {
     const currentHookInstanceId = hookInstanceId.current;
 
@@ -172,6 +196,19 @@ export const useChat = (): UseChatReturn => {
     };
   }, [user]);
 
+  const hiddenMessageIds = activeConversation?.hiddenMessageIds;
+  const visibleMessages = useMemo(
+    () =>
+      hiddenMessageIds?.length
+        ? messages.filter((m) => !hiddenMessageIds.includes(m.id))
+        : messages,
+    [messages, hiddenMessageIds]
+  );
+
+  // A reply started in another conversation doesn't carry over
+  const replyingTo =
+    replyTarget?.conversationId === activeConversation?.id ? replyTarget : null;
+
   const fetchConversations = async () => {
     if (user) {
       console.log(
@@ -207,7 +244,14 @@ export const useChat = (): UseChatReturn => {
   };
   const sendMessage = async (content: string) => {
     if (user && activeConversation) {
-      await sendMessageToConversation(activeConversation.id, user.id, content);
+      const replyTo = replyingTo ? toReply(replyingTo) : undefined;
+      setReplyingTo(null);
+      await sendMessageToConversation(
+        activeConversation.id,
+        user.id,
+        content,
+        replyTo
+      );
     }
   };
 
@@ -224,7 +268,8 @@ export const useChat = (): UseChatReturn => {
   return {
     conversations,
     activeConversation,
-    messages,
+    messages: visibleMessages,
+    replyingTo,
     conversationsLoading,
     messagesLoading,
     error,
@@ -233,7 +278,9 @@ export const useChat = (): UseChatReturn => {
     createNewConversation,
     fetchMessages,
     sendMessage,
+    setReplyingTo,
     sendAIMessage,
+    setTyping,
   };
 };
 
@@ -1,14 +1,31 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { formatUserDisplayName } from '@/lib/firebase/user';
+import { useSocketStore } from '@/store';
 import { Conversation, User } from '@/types';
 
 export function useParticipantData(
   conversations: Conversation[],
   currentUserId?: string
 ) {
-  const [participantUsers, setParticipantUsers] = useState<Map<string, User>>(
+  const [fetchedUsers, setFetchedUsers] = useState<Map<string, User>>(
     new Map()
   );
+  const presence = useSocketStore((state) => state.presence);
+
+  // Live socket presence takes precedence over the status stored in Firestore
+  const participantUsers = useMemo(() => {
+    const merged = new Map<string, User>();
+    fetchedUsers.forEach((participant, id) => {
+      const status = presence[id];
+      merged.set(
+        id,
+        status && status !== participant.status
+          ? { ...participant, status }
+          : participant
+      );
+    });
+    return merged;
+  }, [fetchedUsers, presence]);
 
   // Fetch user data for conversation participants
   useEffect(() => {
@@ -31,7 +48,7 @@ export function useParticipantData(
         if (participantIds.size > 0) {
           const { getUsersByIds } = await import('@/lib/firebase/user');
           const users = await getUsersByIds(Array.from(participantIds));
-          setParticipantUsers(users);
+          setFetchedUsers(users);
         }
       } catch (error) {
         console.error('Error fetching participant user data:', error);
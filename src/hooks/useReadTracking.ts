@@ -0,0 +1,108 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { Message } from '@/types';
+import { useAuthStore, useChatStore } from '@/store';
+
+// How much of a message has to be on screen for it to count as seen
+const VISIBLE_THRESHOLD = 0.6;
+// Messages seen within this window are marked read together
+const READ_BATCH_DELAY_MS = 1000;
+
+const isPageFocused = () =>
+  document.visibilityState === 'visible' && document.hasFocus();
+
+const toTime = (timestamp: Message['timestamp']): number =>
+  new Date(timestamp).getTime() || 0;
+
+/**
+ * Mark messages read once they are visible inside `containerRef` while the
+ * tab is focused. Message elements are found by their `data-message-id`.
+ * Reads are batched, then everything up to the newest visible message from
+ * someone else is marked read at once.
+ */
+export function useReadTracking(
+  containerRef: RefObject<HTMLElement | null>,
+  conversationId: string | undefined,
+  messages: Message[]
+): void {
+  const userId = useAuthStore((state) => state.user?.id);
+  const markMessageAsRead = useChatStore((state) => state.markMessageAsRead);
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const messagesRef = useRef(messages);
+  const hasMessages = messages.length > 0;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !conversationId || !userId) return;
+
+    const visibleIds = new Set<string>();
+    let readUpTo = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      timer = null;
+      if (!isPageFocused()) return;
+
+      const unread = messagesRef.current.filter(
+        (message) =>
+          visibleIds.has(message.id) &&
+          message.sender !== userId &&
+          !message.receipts?.[userId]?.readAt &&
+          toTime(message.timestamp) > readUpTo
+      );
+      // Messages are ordered by timestamp, so the last one is the newest
+      const newest = unread[unread.length - 1];
+      if (!newest) return;
+
+      readUpTo = toTime(newest.timestamp);
+      markMessageAsRead(newest.id, conversationId, userId);
+    };
+
+    const scheduleFlush = () => {
+      if (!timer) timer = setTimeout(flush, READ_BATCH_DELAY_MS);
+    };
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach(({ target, isIntersecting }) => {
+          const id = (target as HTMLElement).dataset.messageId;
+          if (!id) return;
+
+          if (isIntersecting) {
+            visibleIds.add(id);
+          } else {
+            visibleIds.delete(id);
+          }
+        });
+        scheduleFlush();
+      },
+      { root: container, threshold: VISIBLE_THRESHOLD }
+    );
+    observerRef.current = observer;
+
+    // Messages that were already visible count once the tab gets focus back
+    window.addEventListener('focus', scheduleFlush);
+    document.addEventListener('visibilitychange', scheduleFlush);
+
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+      window.removeEventListener('focus', scheduleFlush);
+      document.removeEventListener('visibilitychange', scheduleFlush);
+      if (timer) clearTimeout(timer);
+    };
+  }, [containerRef, conversationId, userId, markMessageAsRead, hasMessages]);
+
+  // Observe new message elements as they render. Observing an element twice
+  // is a no-op and removed elements stop being reported on their own.
+  useEffect(() => {
+    messagesRef.current = messages;
+
+    const container = containerRef.current;
+    const observer = observerRef.current;
+    if (!container || !observer) return;
+
+    container
+      .querySelectorAll<HTMLElement>('[data-message-id]')
+      .forEach((element) => observer.observe(element));
+  }, [containerRef, messages, conversationId, userId, hasMessages]);
+}
@@ -0,0 +1,22 @@
+import { useMemo } from 'react';
+import { useAuthStore, useSocketStore } from '@/store';
+
+const NO_TYPING_USERS: string[] = [];
+
+/**
+ * IDs of the other users currently typing in a conversation
+ */
+export function useTypingUsers(conversationId?: string | null): string[] {
+  const currentUserId = useAuthStore((state) => state.user?.id);
+  const typingUsers = useSocketStore((state) =>
+    conversationId ? state.typingUsers[conversationId] : undefined
+  );
+
+  return useMemo(
+    () =>
+      typingUsers
+        ? typingUsers.filter((id) => id !== currentUserId)
+        : NO_TYPING_USERS,
+    [typingUsers, currentUserId]
+  );
+}
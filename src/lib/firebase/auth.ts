@@ -215,6 +215,14 @@ export const logoutUser = async (): Promise<void> => {
   }
 };
 
+// Get a fresh ID token for the signed-in user (used by the socket handshake)
+export const getCurrentIdToken = async (): Promise<string | null> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) return null;
+
+  return currentUser.getIdToken();
+};
+
 // Convert Firebase user to app User
 export const mapFirebaseUser = async (
   firebaseUser: FirebaseUser
@@ -431,6 +431,18 @@ async function fetchUserConversations(
     const conversationIds = querySnapshot.docs.map(
       (doc) => doc.data().conversationId
     );
+    const hiddenMessageIds = new Map<string, string[]>(
+      querySnapshot.docs.map((doc) => [
+        doc.data().conversationId,
+        doc.data().hiddenMessageIds ?? [],
+      ])
+    );
+    const threadReads = new Map<string, Record<string, string>>(
+      querySnapshot.docs.map((doc) => [
+        doc.data().conversationId,
+        doc.data().threadReads ?? {},
+      ])
+    );
 
     // Fetch all conversation documents
     const conversations: Conversation[] = [];
@@ -442,7 +454,11 @@ async function fetchUserConversations(
 
       if (conversationDoc.exists()) {
         const data = conversationDoc.data() as ConversationFirestore;
-        conversations.push(mapConversationFromFirestore(conversationId, data));
+        conversations.push({
+          ...mapConversationFromFirestore(conversationId, data),
+          hiddenMessageIds: hiddenMessageIds.get(conversationId),
+          threadReads: threadReads.get(conversationId),
+        });
       }
     }
 
@@ -1,5 +1,6 @@
 // Re-export all services for easy import
 export * from './messageService';
+export * from './threadService';
 export * from './conversationService';
 export * from './realtimeService';
 export * from './migrationService';
@@ -2,32 +2,67 @@ import {
   collection,
   query,
   orderBy,
-  addDoc,
+  limit,
+  setDoc,
   updateDoc,
   doc,
   getDocs,
   serverTimestamp,
   getDoc,
   writeBatch,
+  runTransaction,
+  arrayUnion,
+  deleteField,
+  FieldPath,
   Timestamp,
   FieldValue,
+  QueryDocumentSnapshot,
 } from 'firebase/firestore';
 import { db } from '../config';
-import { Message } from '@/types';
+import { Message, MessageReply, MessageVersion } from '@/types';
 
 // Message interface for Firestore
 interface MessageFirestore extends Omit<Message, 'id' | 'timestamp'> {
   timestamp: FieldValue | Timestamp | Date;
 }
 
+// How far back to look for the newest message that isn't deleted
+const LAST_MESSAGE_LOOKBACK = 20;
+
+// The latest messages of a conversation, newest first
+const getRecentMessages = (conversationId: string) =>
+  getDocs(
+    query(
+      collection(db, 'conversations', conversationId, 'messages'),
+      orderBy('timestamp', 'desc'),
+      limit(LAST_MESSAGE_LOOKBACK)
+    )
+  );
+
+// The first doc that isn't a tombstone; docs come newest first
+const findVisible = (
+  docs: QueryDocumentSnapshot[]
+): QueryDocumentSnapshot | undefined =>
+  docs.find((message) => !message.get('deletedAt'));
+
+/**
+ * Generate a message ID on the client, so the same ID identifies the message
+ * in Firestore, over the socket and across retries
+ */
+export const createMessageId = (conversationId: string): string =>
+  doc(collection(db, 'conversations', conversationId, 'messages')).id;
+
 /**
- * Send a new message to a conversation
+ * Send a new message to a conversation, optionally as a reply quoting an
+ * earlier message
  */
 export const sendMessage = async (
   conversationId: string,
   sender: string,
   content: string,
-  isAI: boolean = false
+  isAI: boolean = false,
+  messageId: string = createMessageId(conversationId),
+  replyTo?: MessageReply
 ): Promise<Message> => {
   try {
     const messageData: MessageFirestore = {
@@ -37,17 +72,20 @@ export const sendMessage = async (
       timestamp: serverTimestamp(),
       status: 'sent',
       isAI,
+      // Firestore rejects undefined fields
+      ...(replyTo ? { replyTo } : {}),
     };
 
-    // Use a subcollection for messages
-    const docRef = await addDoc(
-      collection(db, 'conversations', conversationId, 'messages'),
+    // Use a subcollection for messages. Writing to a known ID makes a retried
+    // send overwrite the same document instead of adding a duplicate
+    await setDoc(
+      doc(db, 'conversations', conversationId, 'messages', messageId),
       messageData
     );
 
     // Create the message object to return
     const messageToReturn: Message = {
-      id: docRef.id,
+      id: messageId,
       ...messageData,
       timestamp: new Date(),
     };
@@ -246,3 +284,261 @@ export const updateMessageStatus = async (
     throw error;
   }
 };
+
+/**
+ * Replace the content of a message the editor sent, keeping the previous
+ * version in the message's `history` subcollection. The conversation's
+ * `lastMessage` follows if this is the latest message. Resolves to the edit
+ * time.
+ */
+export const editMessage = async (
+  conversationId: string,
+  messageId: string,
+  editorId: string,
+  content: string
+): Promise<string> => {
+  const conversationRef = doc(db, 'conversations', conversationId);
+  const messagesRef = collection(conversationRef, 'messages');
+  const messageRef = doc(messagesRef, messageId);
+
+  try {
+    // Queries can't run inside a client transaction, so the latest message is
+    // checked up front
+    const recent = await getRecentMessages(conversationId);
+
+    return await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(messageRef);
+      if (!snapshot.exists() || snapshot.get('deletedAt')) {
+        throw new Error(`Message ${messageId} not found`);
+      }
+
+      const data = snapshot.data();
+      if (data.sender !== editorId) {
+        throw new Error(`Only the sender can edit message ${messageId}`);
+      }
+
+      const editedAt = new Date().toISOString();
+      if (data.content === content) return data.editedAt ?? editedAt;
+
+      const previous: MessageVersion = {
+        content: data.content,
+        timestamp:
+          data.editedAt ??
+          (data.timestamp instanceof Timestamp
+            ? data.timestamp.toDate().toISOString()
+            : editedAt),
+      };
+      transaction.set(doc(collection(messageRef, 'history')), previous);
+      transaction.update(messageRef, { content, editedAt });
+
+      if (findVisible(recent.docs)?.id === messageId) {
+        transaction.update(conversationRef, {
+          'lastMessage.content': content,
+        });
+      }
+
+      return editedAt;
+    });
+  } catch (error) {
+    console.error('Error editing message:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a message the requester sent for everyone, within `windowMs` of
+ * sending it. A tombstone with empty content and `deletedAt` stays in its
+ * place and its edit history is dropped. If it was the conversation's last
+ * message, `lastMessage` falls back to the newest message still there.
+ * Resolves to the deletion time.
+ */
+export const deleteMessageForEveryone = async (
+  conversationId: string,
+  messageId: string,
+  requesterId: string,
+  windowMs: number
+): Promise<string> => {
+  const conversationRef = doc(db, 'conversations', conversationId);
+  const messageRef = doc(conversationRef, 'messages', messageId);
+
+  try {
+    // Queries can't run inside a client transaction, so they run up front
+    const [recent, history] = await Promise.all([
+      getRecentMessages(conversationId),
+      getDocs(collection(messageRef, 'history')),
+    ]);
+
+    return await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(messageRef);
+      if (!snapshot.exists()) {
+        throw new Error(`Message ${messageId} not found`);
+      }
+
+      const data = snapshot.data();
+      if (data.sender !== requesterId) {
+        throw new Error(`Only the sender can delete message ${messageId}`);
+      }
+      if (data.deletedAt) return data.deletedAt;
+      if (
+        data.timestamp instanceof Timestamp &&
+        Date.now() - data.timestamp.toMillis() > windowMs
+      ) {
+        throw new Error(`Message ${messageId} is too old to delete`);
+      }
+
+      const deletedAt = new Date().toISOString();
+      transaction.update(messageRef, { content: '', deletedAt });
+      // Earlier versions would still show what was deleted
+      history.docs.forEach((version) => transaction.delete(version.ref));
+
+      if (findVisible(recent.docs)?.id === messageId) {
+        const previous = findVisible(
+          recent.docs.filter((message) => message.id !== messageId)
+        );
+        transaction.update(conversationRef, {
+          lastMessage: previous
+            ? {
+                content: previous.get('content'),
+                timestamp: previous.get('timestamp'),
+                sender: previous.get('sender'),
+              }
+            : deleteField(),
+        });
+      }
+
+      return deletedAt;
+    });
+  } catch (error) {
+    console.error('Error deleting message:', error);
+    throw error;
+  }
+};
+
+/**
+ * Hide a message from one user only, through their `userConversations`
+ * record
+ */
+export const hideMessageForUser = async (
+  userId: string,
+  conversationId: string,
+  messageId: string
+): Promise<void> => {
+  try {
+    await setDoc(
+      doc(db, 'userConversations', `${userId}_${conversationId}`),
+      { hiddenMessageIds: arrayUnion(messageId) },
+      { merge: true }
+    );
+  } catch (error) {
+    console.error('Error hiding message:', error);
+    throw error;
+  }
+};
+
+/**
+ * Add or remove one user's reaction to a message. Only that user's ID is
+ * added to or removed from the emoji's list, so concurrent reactions from
+ * other users aren't lost. The emoji is dropped once nobody reacts with it.
+ */
+export const updateReaction = async (
+  conversationId: string,
+  messageId: string,
+  userId: string,
+  emoji: string,
+  action: 'add' | 'remove'
+): Promise<void> => {
+  try {
+    const messageRef = doc(
+      db,
+      'conversations',
+      conversationId,
+      'messages',
+      messageId
+    );
+    // A field path, since emoji can contain characters that dotted paths
+    // don't allow
+    const field = new FieldPath('reactions', emoji);
+
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(messageRef);
+      const others = (
+        (snapshot.get(field) as string[] | undefined) ?? []
+      ).filter((id) => id !== userId);
+      const users = action === 'add' ? [...others, userId] : others;
+
+      // An empty list would linger as a reaction nobody made
+      transaction.update(
+        messageRef,
+        field,
+        users.length ? users : deleteField()
+      );
+    });
+  } catch (error) {
+    console.error('Error updating reaction:', error);
+    throw error;
+  }
+};
+
+/**
+ * Previous versions of an edited message, oldest first
+ */
+export const getMessageHistory = async (
+  conversationId: string,
+  messageId: string
+): Promise<MessageVersion[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(
+          db,
+          'conversations',
+          conversationId,
+          'messages',
+          messageId,
+          'history'
+        ),
+        orderBy('timestamp', 'asc')
+      )
+    );
+    return snapshot.docs.map((version) => version.data() as MessageVersion);
+  } catch (error) {
+    console.error('Error loading message history:', error);
+    throw error;
+  }
+};
+
+/**
+ * Move a user's `lastReadTimestamp` for a conversation forward to `readUpTo`.
+ * Never moves it back, so an older read from another tab or device can't
+ * undo a newer one.
+ */
+export const advanceLastReadTimestamp = async (
+  userId: string,
+  conversationId: string,
+  readUpTo: Date
+): Promise<void> => {
+  const userConversationRef = doc(
+    db,
+    'userConversations',
+    `${userId}_${conversationId}`
+  );
+
+  try {
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(userConversationRef);
+      const current = snapshot.data()?.lastReadTimestamp;
+      if (current instanceof Timestamp && current.toDate() >= readUpTo) {
+        return;
+      }
+
+      transaction.set(
+        userConversationRef,
+        { lastReadTimestamp: Timestamp.fromDate(readUpTo) },
+        { merge: true }
+      );
+    });
+  } catch (error) {
+    console.error('Error updating last read timestamp:', error);
+    throw error;
+  }
+};
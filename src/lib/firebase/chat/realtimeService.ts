@@ -93,6 +93,18 @@ export const onUserConversationsUpdate = (
           const conversationIds = snapshot.docs.map(
             (doc) => doc.data().conversationId as string
           );
+          const hiddenMessageIds = new Map<string, string[]>(
+            snapshot.docs.map((doc) => [
+              doc.data().conversationId,
+              doc.data().hiddenMessageIds ?? [],
+            ])
+          );
+          const threadReads = new Map<string, Record<string, string>>(
+            snapshot.docs.map((doc) => [
+              doc.data().conversationId,
+              doc.data().threadReads ?? {},
+            ])
+          );
 
           // Fetch all conversation documents
           const conversations: Conversation[] = [];
@@ -156,6 +168,8 @@ export const onUserConversationsUpdate = (
                   createdAt: createdAtStr,
                   updatedAt: updatedAtStr,
                   isAIChat: data.isAIChat || false,
+                  hiddenMessageIds: hiddenMessageIds.get(conversationId),
+                  threadReads: threadReads.get(conversationId),
                 });
               }
             } catch (err) {
@@ -396,3 +410,60 @@ export const onConversationMessagesUpdate = (
     }; // Return empty cleanup function
   }
 };
+
+/**
+ * Listen to the replies in a thread, oldest first
+ * @param conversationId Conversation the thread belongs to
+ * @param threadId ID of the message that started the thread
+ * @param callback Function called with the updated replies
+ * @returns Cleanup function to unsubscribe from updates
+ */
+export const onThreadMessagesUpdate = (
+  conversationId: string,
+  threadId: string,
+  callback: (messages: Message[]) => void
+) => {
+  if (!conversationId || !threadId) {
+    console.error('Invalid thread provided to onThreadMessagesUpdate');
+    callback([]);
+    return () => {};
+  }
+
+  const q = query(
+    collection(
+      db,
+      'conversations',
+      conversationId,
+      'threads',
+      threadId,
+      'messages'
+    ),
+    orderBy('timestamp', 'asc')
+  );
+
+  return onSnapshot(
+    q,
+    // Pending writes come back without a server timestamp yet
+    { includeMetadataChanges: true },
+    (querySnapshot) => {
+      const messages = querySnapshot.docs.map((doc) => {
+        const data = doc.data({ serverTimestamps: 'estimate' });
+        return {
+          id: doc.id,
+          conversationId,
+          threadId,
+          ...data,
+          timestamp:
+            data.timestamp instanceof Timestamp
+              ? data.timestamp.toDate()
+              : new Date(),
+        } as Message;
+      });
+      callback(messages);
+    },
+    (error) => {
+      console.error(`Error in thread listener for ${threadId}:`, error);
+      callback([]);
+    }
+  );
+};
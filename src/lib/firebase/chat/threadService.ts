@@ -0,0 +1,137 @@
+import {
+  collection,
+  doc,
+  runTransaction,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from '../config';
+import { Message, MessageThread } from '@/types';
+
+// How many of the latest repliers the root message shows
+const LAST_REPLIERS_SHOWN = 3;
+
+const threadMessagesRef = (conversationId: string, threadId: string) =>
+  collection(
+    db,
+    'conversations',
+    conversationId,
+    'threads',
+    threadId,
+    'messages'
+  );
+
+/**
+ * A new ID for a reply in a thread, so retries of the same reply write the
+ * same document
+ */
+export const createThreadMessageId = (
+  conversationId: string,
+  threadId: string
+): string => doc(threadMessagesRef(conversationId, threadId)).id;
+
+/**
+ * Reply in the thread started from message `threadId`. The reply goes to
+ * `threads/{threadId}/messages` and the root message's `thread` summary is
+ * updated in the same transaction. Threads can't be started from deleted
+ * messages.
+ */
+export const sendThreadReply = async (
+  conversationId: string,
+  threadId: string,
+  sender: string,
+  content: string,
+  messageId: string = createThreadMessageId(conversationId, threadId)
+): Promise<Message> => {
+  const rootRef = doc(
+    db,
+    'conversations',
+    conversationId,
+    'messages',
+    threadId
+  );
+  const replyRef = doc(threadMessagesRef(conversationId, threadId), messageId);
+
+  try {
+    return await runTransaction(db, async (transaction) => {
+      const [root, existing] = await Promise.all([
+        transaction.get(rootRef),
+        transaction.get(replyRef),
+      ]);
+      if (!root.exists() || root.get('deletedAt')) {
+        throw new Error(`Message ${threadId} not found`);
+      }
+
+      const reply: Message = {
+        id: messageId,
+        conversationId,
+        threadId,
+        sender,
+        content,
+        timestamp: new Date(),
+        status: 'sent',
+      };
+      // A retry of a reply that was already written
+      if (existing.exists()) return reply;
+
+      const previous = root.get('thread') as MessageThread | undefined;
+      const thread: MessageThread = {
+        replyCount: (previous?.replyCount ?? 0) + 1,
+        lastReplyAt: new Date().toISOString(),
+        lastRepliers: [
+          sender,
+          ...(previous?.lastRepliers ?? []).filter((id) => id !== sender),
+        ].slice(0, LAST_REPLIERS_SHOWN),
+      };
+
+      transaction.set(replyRef, {
+        conversationId,
+        threadId,
+        sender,
+        content,
+        timestamp: serverTimestamp(),
+        status: 'sent',
+      });
+      transaction.update(rootRef, { thread });
+
+      return reply;
+    });
+  } catch (error) {
+    console.error('Error sending thread reply:', error);
+    throw error;
+  }
+};
+
+/**
+ * Record that `userId` has read the thread up to `readUpTo`, in the
+ * `threadReads` map of their `userConversations` record. Never moves the
+ * time back.
+ */
+export const markThreadRead = async (
+  userId: string,
+  conversationId: string,
+  threadId: string,
+  readUpTo: Date
+): Promise<void> => {
+  const userConversationRef = doc(
+    db,
+    'userConversations',
+    `${userId}_${conversationId}`
+  );
+
+  try {
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(userConversationRef);
+      const current = snapshot.data()?.threadReads?.[threadId];
+      if (current && new Date(current) >= readUpTo) return;
+
+      transaction.set(
+        userConversationRef,
+        { threadReads: { [threadId]: readUpTo.toISOString() } },
+        { merge: true }
+      );
+    });
+  } catch (error) {
+    console.error('Error marking thread read:', error);
+    throw error;
+  }
+};
@@ -20,6 +20,19 @@ export interface MessageFirestore {
   timestamp: FieldValue | Timestamp | Date | string;
   status: 'sent' | 'delivered' | 'read';
   isAI?: boolean;
+  // Written by the socket server, with ISO string timestamps
+  receipts?: Record<string, { deliveredAt?: string; readAt?: string }>;
+  // ISO string; previous versions are in the `history` subcollection
+  editedAt?: string;
+  // ISO string; set with empty content when deleted for everyone
+  deletedAt?: string;
+  // User IDs per emoji; an emoji may be left with an empty list
+  reactions?: Record<string, string[]>;
+  replyTo?: { id: string; sender: string; content: string };
+  // Kept up to date by each thread reply
+  thread?: { replyCount: number; lastReplyAt: string; lastRepliers: string[] };
+  // Thread replies only, in `threads/{threadId}/messages`
+  threadId?: string;
 }
 
 // Client interfaces
@@ -28,5 +41,9 @@ export interface UserConversation {
   conversationId: string;
   otherParticipantId: string;
   lastReadTimestamp: Date | string;
+  // Messages this user deleted for themselves
+  hiddenMessageIds?: string[];
+  // When this user last read each thread, as ISO strings keyed by root ID
+  threadReads?: Record<string, string>;
   updatedAt?: Date | string;
 }
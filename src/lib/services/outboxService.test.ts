@@ -0,0 +1,90 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { deserialize, serialize } from 'v8';
+import { Message } from '@/types';
+
+type OutboxService = typeof import('./outboxService');
+
+// fake-indexeddb clones values with structuredClone, which jsdom lacks
+global.structuredClone ??= <T>(value: T): T => deserialize(serialize(value));
+
+const createMessage = (overrides: Partial<Message> = {}): Message => ({
+  id: 'msg-1',
+  conversationId: 'conv-1',
+  sender: 'test-user-id',
+  content: 'Hello world',
+  timestamp: new Date('2025-01-01T10:00:00.000Z'),
+  status: 'queued',
+  ...overrides,
+});
+
+// A fresh copy of the service, as after a page reload: nothing cached in
+// memory, only what IndexedDB kept
+const loadOutbox = (): OutboxService => {
+  let outbox: OutboxService | undefined;
+  jest.isolateModules(() => {
+    outbox = jest.requireActual<OutboxService>('./outboxService');
+  });
+  return outbox!;
+};
+
+describe('outboxService', () => {
+  let outbox: OutboxService;
+
+  beforeEach(() => {
+    // Every test starts from an empty database
+    global.indexedDB = new IDBFactory();
+    outbox = loadOutbox();
+  });
+
+  test('should return queued messages in the order they were queued', async () => {
+    // Arrange
+    const now = jest.spyOn(Date, 'now');
+    now.mockReturnValueOnce(2000);
+    await outbox.addToOutbox(createMessage({ id: 'msg-2' }));
+    now.mockReturnValueOnce(1000);
+    await outbox.addToOutbox(createMessage({ id: 'msg-1' }));
+    now.mockRestore();
+
+    // Act
+    const queued = await outbox.getOutboxMessages();
+
+    // Assert
+    expect(queued.map((m) => m.id)).toEqual(['msg-1', 'msg-2']);
+    expect(queued[0].timestamp).toBe('2025-01-01T10:00:00.000Z');
+  });
+
+  test('should filter by conversation and forget removed messages', async () => {
+    await outbox.addToOutbox(createMessage({ id: 'msg-1' }));
+    await outbox.addToOutbox(createMessage({ id: 'msg-2' }));
+    await outbox.addToOutbox(
+      createMessage({ id: 'msg-3', conversationId: 'conv-2' })
+    );
+    await outbox.removeFromOutbox('msg-1');
+
+    const queued = await outbox.getOutboxMessages('conv-1');
+
+    expect(queued.map((m) => m.id)).toEqual(['msg-2']);
+  });
+
+  test('should keep queued messages across a reload', async () => {
+    await outbox.addToOutbox(createMessage({ id: 'msg-1' }));
+
+    const reloaded = loadOutbox();
+
+    expect((await reloaded.getOutboxMessages()).map((m) => m.id)).toEqual([
+      'msg-1',
+    ]);
+  });
+
+  test('should replace a message queued twice instead of duplicating it', async () => {
+    await outbox.addToOutbox(createMessage({ content: 'First try' }));
+    await outbox.addToOutbox(createMessage({ content: 'Second try' }));
+
+    const queued = await outbox.getOutboxMessages();
+
+    expect(queued).toEqual([
+      expect.objectContaining({ id: 'msg-1', content: 'Second try' }),
+    ]);
+  });
+});
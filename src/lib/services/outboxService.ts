@@ -0,0 +1,110 @@
+import { Message } from '@/types';
+
+const DB_NAME = 'socket-chat';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+/**
+ * A message waiting for a connection, stored with the time it was queued so
+ * the outbox can be flushed in the order messages were written
+ */
+interface OutboxEntry {
+  message: Message;
+  queuedAt: number;
+}
+
+// Used when IndexedDB isn't available (SSR, private browsing); queued
+// messages still flush on reconnect but don't survive a reload
+const memoryOutbox = new Map<string, OutboxEntry>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Open the outbox database, resolving to null if IndexedDB can't be used
+ */
+const openOutbox = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  if (typeof indexedDB === 'undefined') {
+    dbPromise = Promise.resolve(null);
+    return dbPromise;
+  }
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, {
+      keyPath: 'message.id',
+    });
+  };
+
+  dbPromise = requestToPromise(request).catch((error) => {
+    console.warn('Outbox falling back to memory:', error);
+    return null;
+  });
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> => {
+  const db = await openOutbox();
+  if (!db) return null;
+
+  const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  return requestToPromise(run(store));
+};
+
+/**
+ * Queue a message to be sent once the connection is back
+ */
+export const addToOutbox = async (message: Message): Promise<void> => {
+  const entry: OutboxEntry = {
+    // Dates don't round-trip through every storage backend the same way
+    message: {
+      ...message,
+      timestamp: new Date(message.timestamp).toISOString(),
+    },
+    queuedAt: Date.now(),
+  };
+
+  const stored = await withStore('readwrite', (store) => store.put(entry));
+  if (stored === null) {
+    memoryOutbox.set(message.id, entry);
+  }
+};
+
+/**
+ * Remove a message from the outbox once it was sent or discarded
+ */
+export const removeFromOutbox = async (messageId: string): Promise<void> => {
+  memoryOutbox.delete(messageId);
+  await withStore('readwrite', (store) => store.delete(messageId));
+};
+
+/**
+ * Queued messages in the order they were queued, optionally only those of
+ * one conversation
+ */
+export const getOutboxMessages = async (
+  conversationId?: string
+): Promise<Message[]> => {
+  const stored = await withStore<OutboxEntry[]>('readonly', (store) =>
+    store.getAll()
+  );
+  const entries = stored ?? Array.from(memoryOutbox.values());
+
+  return entries
+    .filter(
+      (entry) =>
+        !conversationId || entry.message.conversationId === conversationId
+    )
+    .sort((a, b) => a.queuedAt - b.queuedAt)
+    .map((entry) => entry.message);
+};
@@ -1,14 +1,15 @@
-import { io, Socket } from 'socket.io-client';
+import { io } from 'socket.io-client';
 import { User } from '@/types';
-import { setupSocketEventHandlers } from './handlers';
+import { getCurrentIdToken } from '@/lib/firebase/auth';
 import { initializeMockSocket } from './mockSocket';
+import { ChatSocket } from './events';
 
 // Socket instance singleton
-let socket: Socket | null = null;
+let socket: ChatSocket | null = null;
 let mockMode = false;
 
 // Initialize Socket.IO connection
-export const initializeSocket = (user: User): Socket => {
+export const initializeSocket = (user: User): ChatSocket => {
   if (socket) {
     return socket;
   }
@@ -20,26 +21,29 @@ export const initializeSocket = (user: User): Socket => {
     // Enable mock mode when URL is missing
     mockMode = true;
 
-    // Initialize and return mock socket
-    return initializeMockSocket(user);
+    // Simulated server with scripted users, see mockServer.ts
+    socket = initializeMockSocket(user);
+    return socket;
   }
 
   // Normal socket initialization with real URL
   console.log(`Initializing socket connection to ${socketUrl}`);
 
   socket = io(socketUrl, {
-    auth: {
-      userId: user.id,
-      displayName: user.displayName,
+    // Resolved on every (re)connect so the server always sees a fresh ID token
+    auth: (cb) => {
+      getCurrentIdToken()
+        .then((token) => cb({ token }))
+        .catch((error) => {
+          console.error('Failed to get ID token for socket handshake:', error);
+          cb({ token: null });
+        });
     },
-    reconnection: true,
-    reconnectionAttempts: 5,
-    reconnectionDelay: 1000,
+    // Reconnection is driven by the socket store so it can retry forever,
+    // report its state and be triggered manually
+    reconnection: false,
   });
 
-  // Handle socket events
-  setupSocketEventHandlers(socket);
-
   return socket;
 };
 
@@ -52,7 +56,7 @@ export const disconnectSocket = (): void => {
 };
 
 // Get socket instance
-export const getSocket = (): Socket | null => {
+export const getSocket = (): ChatSocket | null => {
   return socket;
 };
 
@@ -1,19 +1,230 @@
 import { Message } from '@/types';
 import { getSocket } from './connection';
-import { SocketEvents } from './events';
+import {
+  SocketEvents,
+  AckResponse,
+  JoinAckResponse,
+  RelayMessagePayload,
+  SendMessageAckResponse,
+  EditMessageAckResponse,
+  EditMessagePayload,
+  MessageEditPayload,
+  DeleteMessageAckResponse,
+  DeleteMessagePayload,
+  MessageDeletePayload,
+  UpdateReactionAckResponse,
+  UpdateReactionPayload,
+} from './events';
 
-// Send a message via socket
-export const sendMessage = (message: Message): void => {
+// How long to wait for the server to acknowledge a message before retrying
+export const MESSAGE_ACK_TIMEOUT = 5000;
+export const MESSAGE_MAX_ATTEMPTS = 3;
+const MESSAGE_RETRY_DELAY = 1000;
+
+// Emit a message event until the server acknowledges it, resolving to the
+// acknowledgement. Retries are safe because the server ignores message IDs it
+// has already seen.
+const emitMessageWithRetry = async <R extends AckResponse>(
+  messageId: string,
+  emit: () => Promise<R>
+): Promise<R> => {
+  for (let attempt = 1; ; attempt++) {
+    let response: R;
+
+    try {
+      response = await emit();
+    } catch {
+      if (attempt >= MESSAGE_MAX_ATTEMPTS) {
+        throw new Error(
+          `Message ${messageId} was not acknowledged after ${attempt} attempts`
+        );
+      }
+
+      console.warn(
+        `No ack for message ${messageId} (attempt ${attempt}), retrying`
+      );
+      await new Promise((resolve) =>
+        setTimeout(resolve, MESSAGE_RETRY_DELAY * attempt)
+      );
+      continue;
+    }
+
+    // A rejection won't change on retry
+    if (!response.ok) {
+      throw new Error(
+        `Server rejected message ${messageId}: ${response.error}`
+      );
+    }
+    return response;
+  }
+};
+
+// Relay a message the client already stored in Firestore, resolving once the
+// server acknowledges it
+export const sendMessage = async (message: Message): Promise<void> => {
   const socket = getSocket();
-  if (socket) {
-    socket.emit(SocketEvents.NEW_MESSAGE, message);
+  if (!socket) return;
+
+  const { id, conversationId, content, replyTo } = message;
+  const payload: RelayMessagePayload = {
+    id,
+    conversationId,
+    content,
+    ...(replyTo ? { replyTo } : {}),
+  };
+
+  await emitMessageWithRetry(message.id, () =>
+    socket
+      .timeout(MESSAGE_ACK_TIMEOUT)
+      .emitWithAck(SocketEvents.NEW_MESSAGE, payload)
+  );
+};
+
+// Whether messages are persisted by the socket server instead of written to
+// Firestore by the client
+export const isServerMessageWriteEnabled = (): boolean =>
+  process.env.NEXT_PUBLIC_SERVER_MESSAGE_WRITES === 'true';
+
+// Have the server validate and store a message, resolving to the message as
+// it was stored
+export const sendMessageToServer = async (
+  message: Pick<Message, 'id' | 'conversationId' | 'content' | 'replyTo'>
+): Promise<Message> => {
+  const socket = getSocket();
+  if (!socket) throw new Error('Socket is not connected');
+
+  const { id, conversationId, content, replyTo } = message;
+  const response = await emitMessageWithRetry<SendMessageAckResponse>(id, () =>
+    socket.timeout(MESSAGE_ACK_TIMEOUT).emitWithAck(SocketEvents.SEND_MESSAGE, {
+      id,
+      conversationId,
+      content,
+      ...(replyTo ? { replyTo } : {}),
+    })
+  );
+
+  if (!response.message) {
+    throw new Error(`Server did not return stored message ${id}`);
   }
+  return response.message;
+};
+
+// Relay an edit the client already stored in Firestore, resolving once the
+// server acknowledges it
+export const relayMessageEdit = async (
+  edit: MessageEditPayload
+): Promise<void> => {
+  const socket = getSocket();
+  if (!socket) return;
+
+  await emitMessageWithRetry(edit.messageId, () =>
+    socket
+      .timeout(MESSAGE_ACK_TIMEOUT)
+      .emitWithAck(SocketEvents.MESSAGE_EDITED, edit)
+  );
+};
+
+// Have the server validate and store an edit, resolving to the message as it
+// was stored. Retrying is safe since the same content is a no-op.
+export const editMessageOnServer = async (
+  edit: EditMessagePayload
+): Promise<Message> => {
+  const socket = getSocket();
+  if (!socket) throw new Error('Socket is not connected');
+
+  const response = await emitMessageWithRetry<EditMessageAckResponse>(
+    edit.messageId,
+    () =>
+      socket
+        .timeout(MESSAGE_ACK_TIMEOUT)
+        .emitWithAck(SocketEvents.EDIT_MESSAGE, edit)
+  );
+
+  if (!response.message) {
+    throw new Error(`Server did not return edited message ${edit.messageId}`);
+  }
+  return response.message;
+};
+
+// Relay a deletion the client already stored in Firestore, resolving once the
+// server acknowledges it
+export const relayMessageDeletion = async (
+  deletion: MessageDeletePayload
+): Promise<void> => {
+  const socket = getSocket();
+  if (!socket) return;
+
+  await emitMessageWithRetry(deletion.messageId, () =>
+    socket
+      .timeout(MESSAGE_ACK_TIMEOUT)
+      .emitWithAck(SocketEvents.MESSAGE_DELETED, deletion)
+  );
+};
+
+// Have the server delete a message for everyone, resolving to the tombstone
+// it stored. Retrying is safe since deleting twice is a no-op.
+export const deleteMessageOnServer = async (
+  deletion: DeleteMessagePayload
+): Promise<Message> => {
+  const socket = getSocket();
+  if (!socket) throw new Error('Socket is not connected');
+
+  const response = await emitMessageWithRetry<DeleteMessageAckResponse>(
+    deletion.messageId,
+    () =>
+      socket
+        .timeout(MESSAGE_ACK_TIMEOUT)
+        .emitWithAck(SocketEvents.DELETE_MESSAGE, deletion)
+  );
+
+  if (!response.message) {
+    throw new Error(
+      `Server did not return deleted message ${deletion.messageId}`
+    );
+  }
+  return response.message;
+};
+
+// Relay a reaction the client already stored in Firestore, resolving once the
+// server acknowledges it
+export const relayReactionUpdate = async (
+  update: UpdateReactionPayload
+): Promise<void> => {
+  const socket = getSocket();
+  if (!socket) return;
+
+  await emitMessageWithRetry(update.messageId, () =>
+    socket
+      .timeout(MESSAGE_ACK_TIMEOUT)
+      .emitWithAck(SocketEvents.REACTION_UPDATED, update)
+  );
+};
+
+// Have the server add or remove a reaction, resolving to the message with its
+// stored reactions. Retrying is safe since the update is idempotent.
+export const updateReactionOnServer = async (
+  update: UpdateReactionPayload
+): Promise<Message> => {
+  const socket = getSocket();
+  if (!socket) throw new Error('Socket is not connected');
+
+  const response = await emitMessageWithRetry<UpdateReactionAckResponse>(
+    update.messageId,
+    () =>
+      socket
+        .timeout(MESSAGE_ACK_TIMEOUT)
+        .emitWithAck(SocketEvents.UPDATE_REACTION, update)
+  );
+
+  if (!response.message) {
+    throw new Error(`Server did not return message ${update.messageId}`);
+  }
+  return response.message;
 };
 
 // Notify typing status
 export const sendTypingNotification = (
   conversationId: string,
-  userId: string,
   isTyping: boolean
 ): void => {
   const socket = getSocket();
@@ -22,7 +233,7 @@ export const sendTypingNotification = (
       ? SocketEvents.USER_TYPING
       : SocketEvents.USER_STOP_TYPING;
 
-    socket.emit(event, { conversationId, userId });
+    socket.emit(event, { conversationId });
   }
 };
 
@@ -47,3 +258,66 @@ export const markMessageAsDelivered = (
     socket.emit(SocketEvents.MESSAGE_DELIVERED, { messageId, conversationId });
   }
 };
+
+const JOIN_ACK_TIMEOUT = 10000;
+
+// Join a conversation room to receive its events, resuming from `resumeFrom`
+// if given. Resolves to the server's answer, or null if there was none.
+export const joinConversation = async (
+  conversationId: string,
+  resumeFrom?: { epoch: string; seq: number }
+): Promise<JoinAckResponse | null> => {
+  const socket = getSocket();
+  if (!socket) return null;
+
+  try {
+    const response = await socket
+      .timeout(JOIN_ACK_TIMEOUT)
+      .emitWithAck(SocketEvents.JOIN_CONVERSATION, {
+        conversationId,
+        resumeFrom,
+      });
+
+    if (!response.ok) {
+      console.warn(
+        `Could not join conversation ${conversationId}: ${response.error}`
+      );
+    }
+    return response;
+  } catch {
+    console.warn(`No answer joining conversation ${conversationId}`);
+    return null;
+  }
+};
+
+const ONLINE_USERS_ACK_TIMEOUT = 10000;
+
+// Fetch the IDs of everyone currently online, or null if the server didn't
+// answer
+export const getOnlineUsers = async (): Promise<string[] | null> => {
+  const socket = getSocket();
+  if (!socket) return null;
+
+  try {
+    const response = await socket
+      .timeout(ONLINE_USERS_ACK_TIMEOUT)
+      .emitWithAck(SocketEvents.GET_ONLINE_USERS);
+
+    if (!response.ok) {
+      console.warn(`Could not load online users: ${response.error}`);
+      return null;
+    }
+    return response.userIds ?? [];
+  } catch {
+    console.warn('No answer loading online users');
+    return null;
+  }
+};
+
+// Leave a conversation room
+export const leaveConversation = (conversationId: string): void => {
+  const socket = getSocket();
+  if (socket) {
+    socket.emit(SocketEvents.LEAVE_CONVERSATION, { conversationId });
+  }
+};
@@ -1,23 +1,53 @@
-export const SocketEvents = {
-  CONNECT: 'connect',
-  DISCONNECT: 'disconnect',
-  ERROR: 'error',
-  NEW_MESSAGE: 'new_message',
-  USER_TYPING: 'user_typing',
-  USER_STOP_TYPING: 'user_stop_typing',
-  USER_ONLINE: 'user_online',
-  USER_OFFLINE: 'user_offline',
-  MESSAGE_READ: 'message_read',
-  MESSAGE_DELIVERED: 'message_delivered',
+import { Socket } from 'socket.io-client';
+import {
+  ClientToServerEvents,
+  ServerToClientEvents,
+} from '@shared/socketContract';
 
-  // New events for conversation/messages
-  SEND_MESSAGE: 'send_message',
-  MESSAGES_UPDATED: 'messages_updated',
-  GET_CONVERSATIONS: 'get_conversations',
-  CONVERSATIONS_UPDATED: 'conversations_updated',
-  JOIN_CONVERSATION: 'join_conversation',
-  LEAVE_CONVERSATION: 'leave_conversation',
-} as const;
+// Event names and payload types are defined once in the shared contract
+export {
+  SocketEvents,
+  SocketErrorCodes,
+  recordReceipt,
+  isReadUpTo,
+  applyReaction,
+  MESSAGE_DELETE_WINDOW_MS,
+  REPLY_SNIPPET_LENGTH,
+} from '@shared/socketContract';
+export type {
+  SocketEventType,
+  ServerToClientEvents,
+  ClientToServerEvents,
+  MessagePayload,
+  RelayMessagePayload,
+  SendMessagePayload,
+  EditMessagePayload,
+  MessageEditPayload,
+  MessageEditedPayload,
+  DeleteMessagePayload,
+  MessageDeletePayload,
+  MessageDeletedPayload,
+  UpdateReactionPayload,
+  ReactionUpdatedPayload,
+  MessageReactions,
+  MessageVersion,
+  MessagesUpdatedPayload,
+  TypingEventPayload,
+  PresenceEventPayload,
+  ReceiptEventPayload,
+  ReceiptStatus,
+  MessageReceipts,
+  SocketErrorPayload,
+  AckResponse,
+  MessageAckResponse,
+  SendMessageAckResponse,
+  EditMessageAckResponse,
+  DeleteMessageAckResponse,
+  UpdateReactionAckResponse,
+  JoinAckResponse,
+  OnlineUsersAckResponse,
+  RoomEvent,
+} from '@shared/socketContract';
 
-// Type for type safety
-export type SocketEventType = (typeof SocketEvents)[keyof typeof SocketEvents];
+// Socket typed with the shared event contract
+export type ChatSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
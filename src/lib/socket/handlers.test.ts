@@ -0,0 +1,105 @@
+import { ChatSocket, SocketEvents, RoomEvent } from './events';
+import {
+  replayRoomEvents,
+  setupSocketEventHandlers,
+  SocketEventDispatch,
+} from './handlers';
+import {
+  holdRoomEvents,
+  releaseRoomEvents,
+  resetSequences,
+  syncSequence,
+} from './sequence';
+
+const message = (seq: number): RoomEvent => ({
+  event: SocketEvents.NEW_MESSAGE,
+  payload: {
+    id: `msg-${seq}`,
+    conversationId: 'conv-1',
+    sender: 'bob',
+    content: `Message ${seq}`,
+    timestamp: new Date('2025-01-01T10:00:00.000Z'),
+    status: 'sent',
+    seq,
+  },
+});
+
+describe('socket event handlers', () => {
+  let listeners: Map<string, (payload: unknown) => void>;
+  let dispatch: jest.Mocked<SocketEventDispatch>;
+
+  // Deliver an event the way the socket would
+  const receive = ({ event, payload }: RoomEvent) =>
+    listeners.get(event)?.(payload);
+
+  const receivedIds = () =>
+    dispatch.onMessage.mock.calls.map(([received]) => received.id);
+
+  beforeEach(() => {
+    resetSequences();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    listeners = new Map();
+    const socket = {
+      on: (event: string, listener: (payload: unknown) => void) =>
+        listeners.set(event, listener),
+    } as unknown as ChatSocket;
+    dispatch = {
+      onMessage: jest.fn(),
+      onTyping: jest.fn(),
+      onPresence: jest.fn(),
+      onReceipt: jest.fn(),
+      onMessageEdited: jest.fn(),
+      onMessageDeleted: jest.fn(),
+      onReactionUpdated: jest.fn(),
+      onRateLimited: jest.fn(),
+      onServerDraining: jest.fn(),
+    };
+    setupSocketEventHandlers(socket, dispatch);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should keep replayed events that a live event overtook', () => {
+    // Arrange - we saw up to #3 before the reconnect
+    syncSequence('conv-1', 'epoch-1', 3);
+    holdRoomEvents('conv-1');
+
+    // Act - #6 arrives live before the join acknowledgement replays #4 and #5
+    receive(message(6));
+    replayRoomEvents([message(4), message(5)], dispatch);
+    syncSequence('conv-1', 'epoch-1', 5);
+    replayRoomEvents(releaseRoomEvents('conv-1'), dispatch);
+
+    // Assert
+    expect(receivedIds()).toEqual(['msg-4', 'msg-5', 'msg-6']);
+  });
+
+  test('should keep a live event from a new epoch that overtook the join', () => {
+    syncSequence('conv-1', 'epoch-1', 10);
+    holdRoomEvents('conv-1');
+
+    // The server restarted, so numbering starts over and the join answers
+    // with a refetch of everything up to #1 instead of a replay
+    receive(message(2));
+    syncSequence('conv-1', 'epoch-2', 1);
+    replayRoomEvents(releaseRoomEvents('conv-1'), dispatch);
+
+    expect(receivedIds()).toEqual(['msg-2']);
+  });
+
+  test('should hold events until the last pending join is acknowledged', () => {
+    syncSequence('conv-1', 'epoch-1', 0);
+    holdRoomEvents('conv-1');
+    holdRoomEvents('conv-1');
+
+    receive(message(1));
+    expect(releaseRoomEvents('conv-1')).toEqual([]);
+    replayRoomEvents(releaseRoomEvents('conv-1'), dispatch);
+    receive(message(2));
+
+    expect(receivedIds()).toEqual(['msg-1', 'msg-2']);
+  });
+});
@@ -1,8 +1,103 @@
-import { Socket } from 'socket.io-client';
-import { SocketEvents } from './events';
+import { Message } from '@/types';
+import {
+  SocketEvents,
+  SocketErrorCodes,
+  ChatSocket,
+  RoomEvent,
+  ReceiptEventPayload,
+  ReceiptStatus,
+  MessageEditedPayload,
+  MessageDeletedPayload,
+  ReactionUpdatedPayload,
+} from './events';
+import { holdRoomEvent, markSequenceSeen } from './sequence';
+
+// Callbacks that route incoming socket events into application state
+export interface SocketEventDispatch {
+  onMessage: (message: Message) => void;
+  onTyping: (conversationId: string, userId: string, isTyping: boolean) => void;
+  onPresence: (userId: string, status: 'online' | 'offline') => void;
+  onReceipt: (status: ReceiptStatus, receipt: ReceiptEventPayload) => void;
+  onMessageEdited: (edit: MessageEditedPayload) => void;
+  onMessageDeleted: (deletion: MessageDeletedPayload) => void;
+  onReactionUpdated: (update: ReactionUpdatedPayload) => void;
+  onRateLimited: (event: string, retryAfterMs: number) => void;
+  onServerDraining: () => void;
+}
+
+// Route a conversation room event, skipping ones we have already seen
+const handleRoomEvent = (
+  { event, payload }: RoomEvent,
+  dispatch: SocketEventDispatch
+): void => {
+  if (!markSequenceSeen(payload.conversationId, payload.seq)) return;
+
+  switch (event) {
+    case SocketEvents.NEW_MESSAGE: {
+      // The sequence number is transport bookkeeping, not part of the message
+      const { seq, ...message } = payload;
+      console.log(`New message received: ${message.id} (#${seq})`);
+      dispatch.onMessage(message);
+      break;
+    }
+    case SocketEvents.MESSAGES_UPDATED:
+      console.log(
+        `${payload.messages.length} messages updated in ${payload.conversationId} (#${payload.seq})`
+      );
+      payload.messages.forEach((message) => dispatch.onMessage(message));
+      break;
+    case SocketEvents.MESSAGE_READ:
+      console.log(`Message ${payload.messageId} was read by ${payload.userId}`);
+      dispatch.onReceipt('read', payload);
+      break;
+    case SocketEvents.MESSAGE_DELIVERED:
+      console.log(
+        `Message ${payload.messageId} was delivered to ${payload.userId}`
+      );
+      dispatch.onReceipt('delivered', payload);
+      break;
+    case SocketEvents.MESSAGE_EDITED:
+      console.log(
+        `Message ${payload.messageId} was edited by ${payload.userId}`
+      );
+      dispatch.onMessageEdited(payload);
+      break;
+    case SocketEvents.MESSAGE_DELETED:
+      console.log(
+        `Message ${payload.messageId} was deleted by ${payload.userId}`
+      );
+      dispatch.onMessageDeleted(payload);
+      break;
+    case SocketEvents.REACTION_UPDATED:
+      dispatch.onReactionUpdated(payload);
+      break;
+  }
+};
+
+// Route a room event as it arrives, unless it overtook the acknowledgement of
+// a join still catching up on the conversation
+const handleLiveRoomEvent = (
+  entry: RoomEvent,
+  dispatch: SocketEventDispatch
+): void => {
+  if (holdRoomEvent(entry)) return;
+  handleRoomEvent(entry, dispatch);
+};
+
+// Apply events the server replayed after we rejoined a conversation, or that
+// were held while it did
+export const replayRoomEvents = (
+  events: RoomEvent[],
+  dispatch: SocketEventDispatch
+): void => {
+  events.forEach((entry) => handleRoomEvent(entry, dispatch));
+};
 
 // Setup socket event handlers for centralized socket event management
-export const setupSocketEventHandlers = (socket: Socket): void => {
+export const setupSocketEventHandlers = (
+  socket: ChatSocket,
+  dispatch: SocketEventDispatch
+): void => {
   // Connection events
   socket.on(SocketEvents.CONNECT, () => {
     console.log('Socket connected successfully');
@@ -13,48 +108,90 @@ export const setupSocketEventHandlers = (socket: Socket): void => {
   });
 
   socket.on(SocketEvents.ERROR, (error) => {
-    console.error('Socket error:', error);
+    console.error(`Socket error (${error.code}): ${error.message}`, error);
+
+    if (error.code === SocketErrorCodes.RATE_LIMITED) {
+      dispatch.onRateLimited(error.event ?? 'unknown', error.retryAfterMs ?? 0);
+    }
+  });
+
+  // The server is shutting down and wants us on another instance
+  socket.on(SocketEvents.SERVER_DRAINING, () => {
+    console.log('Server is draining, reconnecting');
+    dispatch.onServerDraining();
+  });
+
+  // Handshake rejected by the server's auth middleware
+  socket.on(SocketEvents.CONNECT_ERROR, (error) => {
+    const { data } = error as Error & { data?: unknown };
+    console.error('Socket connection rejected:', error.message, data);
+  });
+
+  // Conversation room events
+  socket.on(SocketEvents.NEW_MESSAGE, (payload) => {
+    handleLiveRoomEvent({ event: SocketEvents.NEW_MESSAGE, payload }, dispatch);
   });
 
-  // Chat-related events (these will dispatch to your state management)
-  socket.on(SocketEvents.NEW_MESSAGE, (message) => {
-    console.log('New message received:', message);
-    // Dispatch to your message store/context
-    // Example: messageStore.addMessage(message);
+  // Typing also reaches us for conversations we haven't joined, so the
+  // conversation list can show it
+  socket.on(SocketEvents.USER_TYPING, ({ conversationId, userId }) => {
+    dispatch.onTyping(conversationId, userId, true);
   });
 
-  socket.on(SocketEvents.USER_TYPING, ({ userId, conversationId }) => {
-    console.log(`User ${userId} is typing in conversation ${conversationId}`);
-    // Update UI to show typing indicator
-    // Example: typingIndicatorStore.setTyping(userId, conversationId);
+  socket.on(SocketEvents.USER_STOP_TYPING, ({ conversationId, userId }) => {
+    dispatch.onTyping(conversationId, userId, false);
   });
 
-  socket.on(SocketEvents.USER_STOP_TYPING, ({ userId, conversationId }) => {
-    console.log(
-      `User ${userId} stopped typing in conversation ${conversationId}`
+  socket.on(SocketEvents.MESSAGES_UPDATED, (payload) => {
+    handleLiveRoomEvent(
+      { event: SocketEvents.MESSAGES_UPDATED, payload },
+      dispatch
     );
-    // Example: typingIndicatorStore.clearTyping(userId, conversationId);
   });
 
-  // User presence events
-  socket.on(SocketEvents.USER_ONLINE, (userId) => {
-    console.log(`User ${userId} is online`);
-    // Example: presenceStore.setUserStatus(userId, 'online');
+  socket.on(SocketEvents.MESSAGE_READ, (payload) => {
+    handleLiveRoomEvent(
+      { event: SocketEvents.MESSAGE_READ, payload },
+      dispatch
+    );
   });
 
-  socket.on(SocketEvents.USER_OFFLINE, (userId) => {
-    console.log(`User ${userId} is offline`);
-    // Example: presenceStore.setUserStatus(userId, 'offline');
+  socket.on(SocketEvents.MESSAGE_DELIVERED, (payload) => {
+    handleLiveRoomEvent(
+      { event: SocketEvents.MESSAGE_DELIVERED, payload },
+      dispatch
+    );
+  });
+
+  socket.on(SocketEvents.MESSAGE_EDITED, (payload) => {
+    handleLiveRoomEvent(
+      { event: SocketEvents.MESSAGE_EDITED, payload },
+      dispatch
+    );
+  });
+
+  socket.on(SocketEvents.MESSAGE_DELETED, (payload) => {
+    handleLiveRoomEvent(
+      { event: SocketEvents.MESSAGE_DELETED, payload },
+      dispatch
+    );
+  });
+
+  socket.on(SocketEvents.REACTION_UPDATED, (payload) => {
+    handleLiveRoomEvent(
+      { event: SocketEvents.REACTION_UPDATED, payload },
+      dispatch
+    );
   });
 
-  // Message status events
-  socket.on(SocketEvents.MESSAGE_READ, ({ messageId, userId }) => {
-    console.log(`Message ${messageId} was read by ${userId}`);
-    // Example: messageStore.markAsRead(messageId, userId);
+  // User presence events
+  socket.on(SocketEvents.USER_ONLINE, ({ userId }) => {
+    console.log(`User ${userId} is online`);
+    dispatch.onPresence(userId, 'online');
   });
 
-  socket.on(SocketEvents.MESSAGE_DELIVERED, ({ messageId, userId }) => {
-    console.log(`Message ${messageId} was delivered to ${userId}`);
-    // Example: messageStore.markAsDelivered(messageId, userId);
+  socket.on(SocketEvents.USER_OFFLINE, ({ userId }) => {
+    console.log(`User ${userId} is offline`);
+    dispatch.onPresence(userId, 'offline');
   });
 };
@@ -2,6 +2,9 @@
 export * from './events';
 export * from './connection';
 export * from './emitters';
+export * from './handlers';
+export * from './reconnection';
+export * from './sequence';
 
 // Provide a default export for the main initialization function
 import { initializeSocket } from './connection';
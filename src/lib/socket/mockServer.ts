@@ -0,0 +1,731 @@
+import {
+  JoinAckResponse,
+  MessagePayload,
+  RoomEvent,
+  RoomEventMap,
+  RoomEventName,
+  ValidatedClientEvent,
+  ClientEventPayload,
+  parseClientPayload,
+  MESSAGE_DELETE_WINDOW_MS,
+  applyReaction,
+} from '@shared/socketContract';
+import { SocketEvents, SocketErrorCodes } from './events';
+
+/**
+ * A simulated participant. Without `conversations` they take part in every
+ * conversation the client joins.
+ */
+export interface MockUser {
+  id: string;
+  conversations?: string[];
+  // Whether they are online when the mock starts (default: true)
+  online?: boolean;
+}
+
+/**
+ * Something the mock server can be told to do, from the script or at runtime.
+ * Without `conversationId`, conversation actions go to the conversation the
+ * client joined last.
+ */
+export type MockAction =
+  | { type: 'online' | 'offline'; userId: string }
+  | {
+      type: 'typing';
+      userId: string;
+      conversationId?: string;
+      // Stop typing after this long (default: typingMs)
+      durationMs?: number;
+    }
+  | {
+      type: 'message';
+      userId: string;
+      conversationId?: string;
+      content: string;
+    }
+  | {
+      type: 'read' | 'delivered';
+      userId: string;
+      conversationId?: string;
+      messageId: string;
+    }
+  // Drop the connection and refuse reconnects for `outageMs`
+  | { type: 'disconnect'; outageMs?: number }
+  // Ask the client to move to another instance, as a deploy would
+  | { type: 'drain' };
+
+// An action run `at` milliseconds after the client first connects
+export type MockScriptStep = MockAction & { at: number };
+
+export interface MockSocketConfig {
+  // One-way delay for every event, plus up to `jitterMs` at random
+  latencyMs: number;
+  jitterMs: number;
+  users: MockUser[];
+  script: MockScriptStep[];
+  // How simulated users react to the client's messages; 0 skips a receipt
+  deliverAfterMs: number;
+  readAfterMs: number;
+  // How long a simulated user types before sending a message
+  typingMs: number;
+  // Replies cycled through after reading a message; empty for no replies
+  replies: string[];
+  // Drop the connection this often (0 for never), refusing reconnects for
+  // `outageMs` each time
+  disconnectEveryMs: number;
+  outageMs: number;
+}
+
+export const DEFAULT_MOCK_CONFIG: MockSocketConfig = {
+  latencyMs: 80,
+  jitterMs: 120,
+  users: [{ id: 'mock-alex' }, { id: 'mock-sam', online: false }],
+  script: [
+    { at: 3000, type: 'online', userId: 'mock-sam' },
+    { at: 60000, type: 'offline', userId: 'mock-sam' },
+  ],
+  deliverAfterMs: 300,
+  readAfterMs: 1500,
+  typingMs: 2000,
+  replies: [
+    'Sounds good!',
+    'Let me check and get back to you.',
+    'Haha, fair enough.',
+    'Can you say more about that?',
+  ],
+  disconnectEveryMs: 0,
+  outageMs: 3000,
+};
+
+// Events kept per conversation so a rejoin can catch up
+const MOCK_EVENT_LOG_SIZE = 200;
+
+/**
+ * The client's end of a connection, as the mock server sees it
+ */
+export interface MockClient {
+  // Deliver a server event
+  send: (event: string, ...args: unknown[]) => void;
+  // Close the connection from the server's side
+  close: (reason: string) => void;
+}
+
+/**
+ * An in-browser stand-in for the socket server: it follows the event
+ * contract, including validation, room membership, sequence numbers and
+ * replay, with simulated users acting around the current user.
+ */
+export interface MockChatServer {
+  config: MockSocketConfig;
+  // Resolves to false if the connection is refused, e.g. during an outage
+  connect: (client: MockClient) => boolean;
+  disconnect: (client: MockClient) => void;
+  receive: (
+    event: string,
+    args: unknown[],
+    ack?: (response: unknown) => void
+  ) => void;
+  run: (action: MockAction) => void;
+  setLatency: (latencyMs: number, jitterMs?: number) => void;
+  // Cancel the script and any pending simulated activity
+  stop: () => void;
+}
+
+export const createMockChatServer = (
+  currentUserId: string,
+  config: MockSocketConfig
+): MockChatServer => {
+  const epoch = `mock-${Date.now().toString(36)}`;
+  const logs = new Map<string, { seq: number; events: RoomEvent[] }>();
+  const online = new Set(
+    config.users.filter((user) => user.online !== false).map((user) => user.id)
+  );
+  // `${conversationId}:${userId}` -> timer that stops the typing
+  const typing = new Map<string, ReturnType<typeof setTimeout>>();
+  const relayedIds = new Set<string>();
+  const storedMessages = new Map<string, MessagePayload>();
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+
+  let client: MockClient | null = null;
+  let rooms = new Set<string>();
+  let lastJoined: string | null = null;
+  let refuseUntil = 0;
+  let scriptStarted = false;
+  let dropTimer: ReturnType<typeof setTimeout> | null = null;
+  let messageCount = 0;
+  let replyCount = 0;
+
+  const later = (ms: number, fn: () => void) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      fn();
+    }, ms);
+    timers.add(timer);
+    return timer;
+  };
+
+  const isMember = (user: MockUser, conversationId: string) =>
+    !user.conversations || user.conversations.includes(conversationId);
+
+  // Log a room event and send it on if the client is in the room. Typing
+  // reaches the client in any of its conversations, like the real server.
+  const broadcast = <E extends RoomEventName>(
+    conversationId: string,
+    event: E,
+    payload: RoomEventMap[E]
+  ) => {
+    const log = logs.get(conversationId) ?? { seq: 0, events: [] };
+    logs.set(conversationId, log);
+
+    log.seq += 1;
+    const sequenced = { ...payload, seq: log.seq };
+    log.events.push({ event, payload: sequenced } as RoomEvent);
+    if (log.events.length > MOCK_EVENT_LOG_SIZE) log.events.shift();
+
+    if (client && rooms.has(conversationId)) client.send(event, sequenced);
+  };
+
+  // Typing isn't logged, and reaches the client whether or not it joined
+  const sendTyping = (
+    event:
+      | typeof SocketEvents.USER_TYPING
+      | typeof SocketEvents.USER_STOP_TYPING,
+    conversationId: string,
+    userId: string
+  ) => {
+    client?.send(event, { conversationId, userId });
+  };
+
+  // Events after `seq`, or null if some of them are no longer kept
+  const eventsSince = (conversationId: string, seq: number) => {
+    const log = logs.get(conversationId) ?? { seq: 0, events: [] };
+    // A sequence from the future can't be resumed from either
+    if (seq > log.seq) return null;
+
+    const oldest = log.events[0]?.payload.seq ?? log.seq + 1;
+    if (seq + 1 < oldest) return null;
+    return log.events.filter((entry) => entry.payload.seq > seq);
+  };
+
+  const setPresence = (userId: string, status: 'online' | 'offline') => {
+    const changed =
+      status === 'online' ? !online.has(userId) : online.delete(userId);
+    if (status === 'online') online.add(userId);
+    if (!changed || !client) return;
+
+    client.send(
+      status === 'online'
+        ? SocketEvents.USER_ONLINE
+        : SocketEvents.USER_OFFLINE,
+      { userId }
+    );
+  };
+
+  const stopTyping = (conversationId: string, userId: string) => {
+    const key = `${conversationId}:${userId}`;
+    const timer = typing.get(key);
+    if (!timer) return;
+
+    clearTimeout(timer);
+    typing.delete(key);
+    sendTyping(SocketEvents.USER_STOP_TYPING, conversationId, userId);
+  };
+
+  const startTyping = (
+    conversationId: string,
+    userId: string,
+    durationMs: number
+  ) => {
+    const key = `${conversationId}:${userId}`;
+    const wasTyping = typing.has(key);
+    clearTimeout(typing.get(key));
+    typing.set(
+      key,
+      setTimeout(() => stopTyping(conversationId, userId), durationMs)
+    );
+
+    if (!wasTyping) {
+      sendTyping(SocketEvents.USER_TYPING, conversationId, userId);
+    }
+  };
+
+  const dropConnection = (outageMs: number) => {
+    if (!client) return;
+
+    console.log(`Mock socket dropping the connection for ${outageMs}ms`);
+    refuseUntil = Date.now() + outageMs;
+    const dropped = client;
+    disconnect(dropped);
+    dropped.close('transport close');
+  };
+
+  const run = (action: MockAction) => {
+    switch (action.type) {
+      case 'online':
+      case 'offline':
+        setPresence(action.userId, action.type);
+        return;
+      case 'disconnect':
+        dropConnection(action.outageMs ?? config.outageMs);
+        return;
+      case 'drain':
+        client?.send(SocketEvents.SERVER_DRAINING);
+        return;
+    }
+
+    const conversationId = action.conversationId ?? lastJoined;
+    if (!conversationId) {
+      console.warn(`Mock socket has no conversation for ${action.type}`);
+      return;
+    }
+
+    switch (action.type) {
+      case 'typing':
+        startTyping(
+          conversationId,
+          action.userId,
+          action.durationMs ?? config.typingMs
+        );
+        break;
+      case 'message':
+        stopTyping(conversationId, action.userId);
+        messageCount += 1;
+        broadcast(conversationId, SocketEvents.NEW_MESSAGE, {
+          id: `mock-${Date.now().toString(36)}-${messageCount}`,
+          conversationId,
+          sender: action.userId,
+          content: action.content,
+          timestamp: new Date().toISOString(),
+          status: 'sent',
+        });
+        break;
+      case 'read':
+        broadcast(conversationId, SocketEvents.MESSAGE_READ, {
+          messageId: action.messageId,
+          conversationId,
+          userId: action.userId,
+          timestamp: new Date().toISOString(),
+        });
+        break;
+      case 'delivered':
+        broadcast(conversationId, SocketEvents.MESSAGE_DELIVERED, {
+          messageId: action.messageId,
+          conversationId,
+          userId: action.userId,
+          timestamp: new Date().toISOString(),
+        });
+        break;
+    }
+  };
+
+  // Online participants receive the client's message, read it, and one of
+  // them answers
+  const react = ({ id: messageId, conversationId }: MessagePayload) => {
+    const readers = config.users.filter(
+      (user) => online.has(user.id) && isMember(user, conversationId)
+    );
+
+    readers.forEach(({ id: userId }) => {
+      if (config.deliverAfterMs > 0) {
+        later(config.deliverAfterMs, () =>
+          run({ type: 'delivered', userId, conversationId, messageId })
+        );
+      }
+      if (config.readAfterMs > 0) {
+        later(config.readAfterMs, () =>
+          run({ type: 'read', userId, conversationId, messageId })
+        );
+      }
+    });
+
+    if (readers.length === 0 || config.replies.length === 0) return;
+
+    const { id: userId } = readers[replyCount % readers.length];
+    const content = config.replies[replyCount % config.replies.length];
+    replyCount += 1;
+
+    later(config.readAfterMs, () => {
+      run({
+        type: 'typing',
+        userId,
+        conversationId,
+        durationMs: config.typingMs + 1000,
+      });
+      later(config.typingMs, () =>
+        run({ type: 'message', userId, conversationId, content })
+      );
+    });
+  };
+
+  // Validate a payload like the real server, answering failures with an
+  // error event
+  const parse = <E extends ValidatedClientEvent>(
+    event: E,
+    payload: unknown
+  ): ClientEventPayload<E> | null => {
+    const result = parseClientPayload(event, payload);
+    if (result.success) return result.data;
+
+    client?.send(SocketEvents.ERROR, result.error);
+    return null;
+  };
+
+  const inConversation = (conversationId: string): boolean => {
+    if (rooms.has(conversationId)) return true;
+
+    client?.send(SocketEvents.ERROR, {
+      code: SocketErrorCodes.NOT_IN_CONVERSATION,
+      message: 'Join the conversation before sending events to it',
+      conversationId,
+    });
+    return false;
+  };
+
+  const receive: MockChatServer['receive'] = (event, args, ack) => {
+    const respond = ack ?? (() => {});
+    const [payload] = args;
+
+    switch (event) {
+      case SocketEvents.GET_ONLINE_USERS:
+        respond({ ok: true, userIds: [currentUserId, ...online] });
+        break;
+
+      case SocketEvents.JOIN_CONVERSATION: {
+        const request = parse(SocketEvents.JOIN_CONVERSATION, payload);
+        if (!request) {
+          respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+          break;
+        }
+
+        const { conversationId, resumeFrom } = request;
+        rooms.add(conversationId);
+        lastJoined = conversationId;
+
+        const seq = logs.get(conversationId)?.seq ?? 0;
+        const response: JoinAckResponse = { ok: true, epoch, seq };
+        if (resumeFrom) {
+          const missed =
+            resumeFrom.epoch === epoch
+              ? eventsSince(conversationId, resumeFrom.seq)
+              : null;
+          if (missed) response.missed = missed;
+          else response.refetch = true;
+        }
+        respond(response);
+        break;
+      }
+
+      case SocketEvents.LEAVE_CONVERSATION: {
+        const request = parse(SocketEvents.LEAVE_CONVERSATION, payload);
+        if (request) rooms.delete(request.conversationId);
+        break;
+      }
+
+      case SocketEvents.NEW_MESSAGE: {
+        const message = parse(SocketEvents.NEW_MESSAGE, payload);
+        if (!message) {
+          respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+          break;
+        }
+        if (!inConversation(message.conversationId)) {
+          respond({ ok: false, error: SocketErrorCodes.NOT_IN_CONVERSATION });
+          break;
+        }
+        if (relayedIds.has(message.id)) {
+          respond({ ok: true, duplicate: true });
+          break;
+        }
+
+        relayedIds.add(message.id);
+        const relayed: MessagePayload = {
+          ...message,
+          sender: currentUserId,
+          timestamp: new Date().toISOString(),
+          status: 'sent',
+        };
+        broadcast(message.conversationId, SocketEvents.NEW_MESSAGE, relayed);
+        respond({ ok: true });
+        react(relayed);
+        break;
+      }
+
+      case SocketEvents.SEND_MESSAGE: {
+        const request = parse(SocketEvents.SEND_MESSAGE, payload);
+        if (!request) {
+          respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+          break;
+        }
+        // Like the server, accept messages to conversations the client hasn't
+        // joined yet; every conversation is open to the mock user
+
+        const existing = storedMessages.get(request.id);
+        if (existing) {
+          respond({ ok: true, duplicate: true, message: existing });
+          break;
+        }
+
+        const message: MessagePayload = {
+          ...request,
+          sender: currentUserId,
+          timestamp: new Date().toISOString(),
+          status: 'sent',
+        };
+        storedMessages.set(message.id, message);
+        broadcast(message.conversationId, SocketEvents.MESSAGES_UPDATED, {
+          conversationId: message.conversationId,
+          messages: [message],
+        });
+        respond({ ok: true, message });
+        react(message);
+        break;
+      }
+
+      case SocketEvents.EDIT_MESSAGE: {
+        const request = parse(SocketEvents.EDIT_MESSAGE, payload);
+        if (!request) {
+          respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+          break;
+        }
+        if (!inConversation(request.conversationId)) {
+          respond({ ok: false, error: SocketErrorCodes.NOT_IN_CONVERSATION });
+          break;
+        }
+
+        // Simulated users never send through the server, so every stored
+        // message is the current user's
+        const existing = storedMessages.get(request.messageId);
+        if (!existing) {
+          respond({ ok: false, error: 'message_not_found' });
+          break;
+        }
+
+        const message = {
+          ...existing,
+          content: request.content,
+          editedAt: new Date().toISOString(),
+        };
+        storedMessages.set(message.id, message);
+        broadcast(message.conversationId, SocketEvents.MESSAGE_EDITED, {
+          ...request,
+          editedAt: message.editedAt,
+          userId: currentUserId,
+        });
+        respond({ ok: true, message });
+        break;
+      }
+
+      case SocketEvents.MESSAGE_EDITED: {
+        const edit = parse(SocketEvents.MESSAGE_EDITED, payload);
+        if (!edit) {
+          respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+          break;
+        }
+        if (!inConversation(edit.conversationId)) {
+          respond({ ok: false, error: SocketErrorCodes.NOT_IN_CONVERSATION });
+          break;
+        }
+
+        broadcast(edit.conversationId, SocketEvents.MESSAGE_EDITED, {
+          ...edit,
+          userId: currentUserId,
+        });
+        respond({ ok: true });
+        break;
+      }
+
+      case SocketEvents.DELETE_MESSAGE: {
+        const request = parse(SocketEvents.DELETE_MESSAGE, payload);
+        if (!request) {
+          respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+          break;
+        }
+        if (!inConversation(request.conversationId)) {
+          respond({ ok: false, error: SocketErrorCodes.NOT_IN_CONVERSATION });
+          break;
+        }
+
+        const existing = storedMessages.get(request.messageId);
+        if (!existing) {
+          respond({ ok: false, error: 'message_not_found' });
+          break;
+        }
+        // Deleting twice is a retry, so it returns the tombstone again
+        if (existing.deletedAt) {
+          respond({ ok: true, message: existing });
+          break;
+        }
+        if (
+          Date.now() - new Date(existing.timestamp).getTime() >
+          MESSAGE_DELETE_WINDOW_MS
+        ) {
+          respond({ ok: false, error: 'delete_window_expired' });
+          break;
+        }
+
+        const message = {
+          ...existing,
+          content: '',
+          deletedAt: new Date().toISOString(),
+        };
+        storedMessages.set(message.id, message);
+        broadcast(message.conversationId, SocketEvents.MESSAGE_DELETED, {
+          ...request,
+          deletedAt: message.deletedAt,
+          userId: currentUserId,
+        });
+        respond({ ok: true, message });
+        break;
+      }
+
+      case SocketEvents.MESSAGE_DELETED: {
+        const deletion = parse(SocketEvents.MESSAGE_DELETED, payload);
+        if (!deletion) {
+          respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+          break;
+        }
+        if (!inConversation(deletion.conversationId)) {
+          respond({ ok: false, error: SocketErrorCodes.NOT_IN_CONVERSATION });
+          break;
+        }
+
+        broadcast(deletion.conversationId, SocketEvents.MESSAGE_DELETED, {
+          ...deletion,
+          userId: currentUserId,
+          deletedAt: new Date().toISOString(),
+        });
+        respond({ ok: true });
+        break;
+      }
+
+      case SocketEvents.UPDATE_REACTION: {
+        const request = parse(SocketEvents.UPDATE_REACTION, payload);
+        if (!request) {
+          respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+          break;
+        }
+        if (!inConversation(request.conversationId)) {
+          respond({ ok: false, error: SocketErrorCodes.NOT_IN_CONVERSATION });
+          break;
+        }
+
+        const existing = storedMessages.get(request.messageId);
+        if (!existing || existing.deletedAt) {
+          respond({ ok: false, error: 'message_not_found' });
+          break;
+        }
+
+        const message = {
+          ...existing,
+          reactions: applyReaction(existing.reactions, {
+            ...request,
+            userId: currentUserId,
+          }),
+        };
+        storedMessages.set(message.id, message);
+        broadcast(message.conversationId, SocketEvents.REACTION_UPDATED, {
+          ...request,
+          userId: currentUserId,
+        });
+        respond({ ok: true, message });
+        break;
+      }
+
+      case SocketEvents.REACTION_UPDATED: {
+        const update = parse(SocketEvents.REACTION_UPDATED, payload);
+        if (!update) {
+          respond({ ok: false, error: SocketErrorCodes.INVALID_PAYLOAD });
+          break;
+        }
+        if (!inConversation(update.conversationId)) {
+          respond({ ok: false, error: SocketErrorCodes.NOT_IN_CONVERSATION });
+          break;
+        }
+
+        broadcast(update.conversationId, SocketEvents.REACTION_UPDATED, {
+          ...update,
+          userId: currentUserId,
+        });
+        respond({ ok: true });
+        break;
+      }
+
+      // Nobody else is connected to see the current user's typing
+      case SocketEvents.USER_TYPING:
+      case SocketEvents.USER_STOP_TYPING: {
+        const request = parse(event, payload);
+        if (request) inConversation(request.conversationId);
+        break;
+      }
+
+      case SocketEvents.MESSAGE_READ:
+      case SocketEvents.MESSAGE_DELIVERED: {
+        const receipt = parse(event, payload);
+        if (!receipt || !inConversation(receipt.conversationId)) break;
+
+        broadcast(receipt.conversationId, event, {
+          ...receipt,
+          userId: currentUserId,
+          timestamp: new Date().toISOString(),
+        });
+        break;
+      }
+
+      default:
+        console.warn(`Mock socket ignoring unknown event: ${event}`);
+    }
+  };
+
+  const disconnect = (closing: MockClient) => {
+    if (client !== closing) return;
+
+    client = null;
+    // Rooms belong to the connection, as they do on the real server
+    rooms = new Set();
+    if (dropTimer) {
+      clearTimeout(dropTimer);
+      dropTimer = null;
+    }
+  };
+
+  return {
+    config,
+
+    connect: (connecting) => {
+      if (Date.now() < refuseUntil) return false;
+
+      client = connecting;
+
+      if (!scriptStarted) {
+        scriptStarted = true;
+        config.script.forEach(({ at, ...action }) =>
+          later(at, () => run(action as MockAction))
+        );
+      }
+      if (config.disconnectEveryMs > 0) {
+        dropTimer = setTimeout(
+          () => dropConnection(config.outageMs),
+          config.disconnectEveryMs
+        );
+      }
+      return true;
+    },
+
+    disconnect,
+    receive,
+    run,
+
+    setLatency: (latencyMs, jitterMs = 0) => {
+      config.latencyMs = latencyMs;
+      config.jitterMs = jitterMs;
+    },
+
+    stop: () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      typing.forEach((timer) => clearTimeout(timer));
+      typing.clear();
+      if (dropTimer) clearTimeout(dropTimer);
+      client = null;
+    },
+  };
+};
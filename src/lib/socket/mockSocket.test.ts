@@ -0,0 +1,206 @@
+import { createMockSocket } from './mockSocket';
+import {
+  createMockChatServer,
+  DEFAULT_MOCK_CONFIG,
+  MockSocketConfig,
+} from './mockServer';
+import { ChatSocket, JoinAckResponse, SocketEvents } from './events';
+import { setupSocketEventHandlers, SocketEventDispatch } from './handlers';
+import { getResumePoint, resetSequences } from './sequence';
+
+const createMock = (overrides: Partial<MockSocketConfig> = {}) => {
+  const server = createMockChatServer('test-user-id', {
+    ...DEFAULT_MOCK_CONFIG,
+    latencyMs: 50,
+    jitterMs: 0,
+    users: [{ id: 'other-user' }],
+    script: [],
+    ...overrides,
+  });
+  return { server, socket: createMockSocket(server) };
+};
+
+// Names of the events the socket received, in order
+const recordEvents = (socket: ChatSocket, events: string[]) => {
+  const received: string[] = [];
+  events.forEach((event) =>
+    socket.on(event as never, (() => received.push(event)) as never)
+  );
+  return received;
+};
+
+const message = {
+  id: 'msg-1',
+  conversationId: 'conv-1',
+  sender: 'test-user-id',
+  content: 'Hello',
+  timestamp: '2025-01-01T10:00:00.000Z',
+  status: 'sent' as const,
+};
+
+describe('mockSocket', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('should answer a message with receipts, typing and a reply', async () => {
+    // Arrange
+    const { socket } = createMock({
+      deliverAfterMs: 100,
+      readAfterMs: 500,
+      typingMs: 1000,
+      replies: ['Hi there'],
+    });
+    socket.connect();
+    await jest.advanceTimersByTimeAsync(50);
+    const joined = socket.emitWithAck(SocketEvents.JOIN_CONVERSATION, {
+      conversationId: 'conv-1',
+    });
+    await jest.advanceTimersByTimeAsync(100);
+    await joined;
+
+    const received = recordEvents(socket, [
+      SocketEvents.NEW_MESSAGE,
+      SocketEvents.MESSAGE_DELIVERED,
+      SocketEvents.MESSAGE_READ,
+      SocketEvents.USER_TYPING,
+      SocketEvents.USER_STOP_TYPING,
+    ]);
+    const replies: { sender: string; content: string }[] = [];
+    socket.on(SocketEvents.NEW_MESSAGE, (payload) => replies.push(payload));
+
+    // Act
+    const ack = socket.emitWithAck(SocketEvents.NEW_MESSAGE, message);
+    await jest.advanceTimersByTimeAsync(3000);
+
+    // Assert
+    expect(await ack).toEqual({ ok: true });
+    expect(received).toEqual([
+      SocketEvents.NEW_MESSAGE,
+      SocketEvents.MESSAGE_DELIVERED,
+      SocketEvents.MESSAGE_READ,
+      SocketEvents.USER_TYPING,
+      SocketEvents.USER_STOP_TYPING,
+      SocketEvents.NEW_MESSAGE,
+    ]);
+    expect(replies[1]).toMatchObject({
+      sender: 'other-user',
+      content: 'Hi there',
+    });
+  });
+
+  test('should refuse connections during an outage and replay what was missed', async () => {
+    const { server, socket } = createMock({ outageMs: 1000, replies: [] });
+    const received = recordEvents(socket, [
+      SocketEvents.CONNECT,
+      SocketEvents.DISCONNECT,
+      SocketEvents.CONNECT_ERROR,
+    ]);
+    socket.connect();
+    await jest.advanceTimersByTimeAsync(50);
+    const joined = socket.emitWithAck(SocketEvents.JOIN_CONVERSATION, {
+      conversationId: 'conv-1',
+    });
+    await jest.advanceTimersByTimeAsync(100);
+    const { epoch, seq } = await joined;
+
+    server.run({ type: 'disconnect' });
+    server.run({ type: 'message', userId: 'other-user', content: 'Missed' });
+    socket.connect();
+    await jest.advanceTimersByTimeAsync(1000);
+    socket.connect();
+    await jest.advanceTimersByTimeAsync(50);
+    const rejoined = socket.emitWithAck(SocketEvents.JOIN_CONVERSATION, {
+      conversationId: 'conv-1',
+      resumeFrom: { epoch: epoch!, seq: seq! },
+    });
+    await jest.advanceTimersByTimeAsync(100);
+    const response: JoinAckResponse = await rejoined;
+
+    expect(received).toEqual([
+      SocketEvents.CONNECT,
+      SocketEvents.DISCONNECT,
+      SocketEvents.CONNECT_ERROR,
+      SocketEvents.CONNECT,
+    ]);
+    expect(response.missed).toEqual([
+      {
+        event: SocketEvents.NEW_MESSAGE,
+        payload: expect.objectContaining({ content: 'Missed', seq: 1 }),
+      },
+    ]);
+  });
+
+  test('should ask for a refetch when resuming from a sequence it never issued', async () => {
+    const { socket } = createMock({ replies: [] });
+    socket.connect();
+    await jest.advanceTimersByTimeAsync(50);
+    const joined = socket.emitWithAck(SocketEvents.JOIN_CONVERSATION, {
+      conversationId: 'conv-1',
+    });
+    await jest.advanceTimersByTimeAsync(100);
+    const { epoch } = await joined;
+
+    // Nothing was sent in either room yet
+    const rejoins = ['conv-1', 'conv-2'].map((conversationId) =>
+      socket.emitWithAck(SocketEvents.JOIN_CONVERSATION, {
+        conversationId,
+        resumeFrom: { epoch: epoch!, seq: 5 },
+      })
+    );
+    await jest.advanceTimersByTimeAsync(100);
+
+    for (const response of await Promise.all(rejoins)) {
+      expect(response).toMatchObject({ ok: true, refetch: true });
+      expect(response.missed).toBeUndefined();
+    }
+  });
+
+  test('should reject invalid payloads like the real server', async () => {
+    const { socket } = createMock();
+    socket.connect();
+    await jest.advanceTimersByTimeAsync(50);
+
+    const ack = socket.emitWithAck(SocketEvents.JOIN_CONVERSATION, {
+      conversationId: '',
+    });
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(await ack).toEqual({ ok: false, error: 'invalid_payload' });
+  });
+
+  test('should show typing in conversations the client has not joined', async () => {
+    // Arrange
+    resetSequences();
+    const { server, socket } = createMock();
+    const onTyping = jest.fn();
+    setupSocketEventHandlers(socket, {
+      onTyping,
+    } as Partial<SocketEventDispatch> as SocketEventDispatch);
+    socket.connect();
+    await jest.advanceTimersByTimeAsync(50);
+
+    // Act
+    server.run({
+      type: 'typing',
+      userId: 'other-user',
+      conversationId: 'conv-2',
+      durationMs: 500,
+    });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    // Assert
+    expect(onTyping.mock.calls).toEqual([
+      ['conv-2', 'other-user', true],
+      ['conv-2', 'other-user', false],
+    ]);
+    // Joining later must still resume from before the typing
+    expect(getResumePoint('conv-2')).toBeUndefined();
+  });
+});
@@ -1,63 +1,200 @@
-import { Socket, io } from 'socket.io-client';
 import { User } from '@/types';
-import { SocketEvents } from './events';
+import { SocketEvents, ChatSocket } from './events';
+import {
+  createMockChatServer,
+  DEFAULT_MOCK_CONFIG,
+  MockChatServer,
+  MockClient,
+  MockSocketConfig,
+} from './mockServer';
 
-// Socket instance shared with connection.ts
-let socket: Socket | null = null;
+declare global {
+  interface Window {
+    // Read when the mock starts, e.g. set from Cypress' onBeforeLoad
+    __MOCK_SOCKET_CONFIG__?: Partial<MockSocketConfig>;
+    // Runtime controls: run actions, change latency, drop the connection
+    __mockSocket?: MockChatServer;
+  }
+}
+
+type Listener = (...args: unknown[]) => void;
+
+// The mock answering the current socket, replaced on the next sign-in
+let activeServer: MockChatServer | null = null;
+
+/**
+ * A client socket connected to a mock server instead of the network. It
+ * implements the parts of the Socket.IO client the app uses: listeners,
+ * emits with acknowledgements and timeouts, send buffering while
+ * disconnected, and connect/disconnect. Events arrive in order after the
+ * configured latency, and are lost if the connection drops meanwhile.
+ */
+export const createMockSocket = (server: MockChatServer): ChatSocket => {
+  const listeners = new Map<string, Set<Listener>>();
+  // Emits made while disconnected, sent once connected
+  let sendBuffer: unknown[][] = [];
+  let client: MockClient | null = null;
+  let connecting: ReturnType<typeof setTimeout> | null = null;
+
+  const delay = () =>
+    server.config.latencyMs + Math.random() * server.config.jitterMs;
+
+  // One direction of the connection, delivering in order
+  const createChannel = () => {
+    let lastAt = 0;
+    return (fn: () => void) => {
+      const at = Math.max(lastAt, Date.now() + delay());
+      lastAt = at;
+      setTimeout(fn, at - Date.now());
+    };
+  };
+  const toServer = createChannel();
+  const toClient = createChannel();
+
+  const dispatch = (event: string, ...args: unknown[]) => {
+    listeners.get(event)?.forEach((listener) => listener(...args));
+  };
+
+  const closed = (reason: string) => {
+    client = null;
+    dispatch(SocketEvents.DISCONNECT, reason);
+  };
+
+  const send = (event: string, args: unknown[]) => {
+    const sentOn = client;
+    const last = args[args.length - 1];
+    const ack = typeof last === 'function' ? (last as Listener) : undefined;
+    const payload = ack ? args.slice(0, -1) : args;
+
+    toServer(() => {
+      if (client !== sentOn || !sentOn) return;
+
+      server.receive(
+        event,
+        payload,
+        ack &&
+          ((response) =>
+            toClient(() => {
+              if (client === sentOn) ack(response);
+            }))
+      );
+    });
+  };
+
+  const socket = {
+    get connected() {
+      return client !== null;
+    },
+
+    on(event: string, listener: Listener) {
+      const eventListeners = listeners.get(event) ?? new Set<Listener>();
+      listeners.set(event, eventListeners);
+      eventListeners.add(listener);
+      return socket;
+    },
+
+    off(event?: string, listener?: Listener) {
+      if (!event) listeners.clear();
+      else if (!listener) listeners.delete(event);
+      else listeners.get(event)?.delete(listener);
+      return socket;
+    },
+
+    connect() {
+      if (client || connecting) return socket;
+
+      connecting = setTimeout(() => {
+        connecting = null;
+
+        const connection: MockClient = {
+          send: (event, ...args) =>
+            toClient(() => {
+              if (client === connection) dispatch(event, ...args);
+            }),
+          close: (reason) => {
+            if (client === connection) closed(reason);
+          },
+        };
+
+        if (!server.connect(connection)) {
+          dispatch(SocketEvents.CONNECT_ERROR, new Error('xhr poll error'));
+          return;
+        }
+
+        client = connection;
+        dispatch(SocketEvents.CONNECT);
+
+        const buffered = sendBuffer;
+        sendBuffer = [];
+        buffered.forEach(([event, ...args]) => send(event as string, args));
+      }, delay());
+      return socket;
+    },
+
+    disconnect() {
+      if (connecting) {
+        clearTimeout(connecting);
+        connecting = null;
+      }
+      if (client) {
+        server.disconnect(client);
+        closed('io client disconnect');
+      }
+      return socket;
+    },
+
+    emit(event: string, ...args: unknown[]) {
+      if (client) send(event, args);
+      else sendBuffer.push([event, ...args]);
+      return socket;
+    },
+
+    emitWithAck(event: string, ...args: unknown[]) {
+      return new Promise((resolve) => socket.emit(event, ...args, resolve));
+    },
+
+    timeout(ms: number) {
+      return {
+        emitWithAck: (event: string, ...args: unknown[]) =>
+          new Promise((resolve, reject) => {
+            const timer = setTimeout(
+              () => reject(new Error('operation has timed out')),
+              ms
+            );
+            socket.emit(event, ...args, (response: unknown) => {
+              clearTimeout(timer);
+              resolve(response);
+            });
+          }),
+      };
+    },
+  };
+
+  // Only the subset above is implemented, so expose it under the typed
+  // client interface
+  return socket as unknown as ChatSocket;
+};
 
 // Initialize a mock socket for development/testing
-export const initializeMockSocket = (user: User): Socket => {
+export const initializeMockSocket = (user: User): ChatSocket => {
   console.warn(
     'Socket running in mock mode - No NEXT_PUBLIC_SOCKET_URL configured'
   );
 
-  // Create a mock socket that doesn't attempt to connect
-  socket = io('http://localhost', {
-    autoConnect: false,
-    // Add auth property to match real implementation
-    auth: {
-      userId: user.id,
-      displayName: user.displayName,
-    },
+  const overrides =
+    typeof window !== 'undefined' ? window.__MOCK_SOCKET_CONFIG__ : undefined;
+
+  activeServer?.stop();
+  activeServer = createMockChatServer(user.id, {
+    ...DEFAULT_MOCK_CONFIG,
+    ...overrides,
   });
+  if (typeof window !== 'undefined') window.__mockSocket = activeServer;
 
   console.log(
     `Mock socket initialized for user: ${user.displayName} (${user.id})`
   );
-  // Simulate connection events after a brief delay
-  setTimeout(() => {
-    if (socket) {
-      socket.connected = true;
-      socket.emit(SocketEvents.CONNECT);
-    }
-  }, 1000);
-
-  // Add mock emit method that logs events instead of sending them
-  const originalEmit = socket.emit;
-  socket.emit = function mockEmit(event: string, ...args: unknown[]) {
-    console.log(`Mock socket emitting: ${event}`, args);
-
-    // For new message events, simulate echo response
-    if (event === SocketEvents.NEW_MESSAGE && args[0]) {
-      const message = args[0];
-      setTimeout(() => {
-        // Access internal socket.io callbacks with proper casting
-        type SocketCallbacks = Record<string, ((data: unknown) => void)[]>;
-        const socketCallbacks = (socket as { _callbacks?: SocketCallbacks })
-          ._callbacks;
-        const callbacks =
-          socketCallbacks?.[`$${SocketEvents.NEW_MESSAGE}`] || [];
-        callbacks.forEach((handler) => handler(message));
-      }, 500);
-    }
-
-    return originalEmit.apply(this, [event, ...args]);
-  };
-
-  return socket;
-};
 
-// Export for type consistency with the real implementation
-export const setMockSocket = (mockSocket: Socket): void => {
-  socket = mockSocket;
+  // Connects on its own, like a real socket
+  return createMockSocket(activeServer).connect();
 };
@@ -0,0 +1,39 @@
+import {
+  RECONNECT_BASE_DELAY,
+  RECONNECT_MAX_DELAY,
+  getReconnectDelay,
+  isAuthConnectError,
+} from './reconnection';
+
+describe('reconnection', () => {
+  test('getReconnectDelay should grow exponentially up to the cap', () => {
+    // Arrange - no jitter, so the full exponential delay is used
+    const noJitter = () => 1;
+
+    // Act
+    const delays = [1, 2, 3, 10, 100].map((attempt) =>
+      getReconnectDelay(attempt, noJitter)
+    );
+
+    // Assert
+    expect(delays).toEqual([
+      RECONNECT_BASE_DELAY,
+      RECONNECT_BASE_DELAY * 2,
+      RECONNECT_BASE_DELAY * 4,
+      RECONNECT_MAX_DELAY,
+      RECONNECT_MAX_DELAY,
+    ]);
+  });
+
+  test('getReconnectDelay should jitter within the upper half of the delay', () => {
+    expect(getReconnectDelay(3, () => 0)).toBe(RECONNECT_BASE_DELAY * 2);
+    expect(getReconnectDelay(3, () => 0.5)).toBe(RECONNECT_BASE_DELAY * 3);
+  });
+
+  test('isAuthConnectError should only match handshake auth rejections', () => {
+    expect(isAuthConnectError({ data: { code: 'auth/invalid-token' } })).toBe(
+      true
+    );
+    expect(isAuthConnectError(new Error('xhr poll error'))).toBe(false);
+  });
+});
@@ -0,0 +1,31 @@
+// Backoff for reconnecting after the socket drops. Retries never give up;
+// the delay grows to RECONNECT_MAX_DELAY and is jittered so clients dropped by
+// the same outage don't all reconnect at once.
+export const RECONNECT_BASE_DELAY = 1000;
+export const RECONNECT_MAX_DELAY = 30000;
+
+/**
+ * Delay before reconnect attempt `attempt` (1-based), with "equal jitter":
+ * half the exponential delay plus a random share of the other half
+ */
+export const getReconnectDelay = (
+  attempt: number,
+  random: () => number = Math.random
+): number => {
+  const exponential = Math.min(
+    RECONNECT_MAX_DELAY,
+    RECONNECT_BASE_DELAY * 2 ** Math.max(0, attempt - 1)
+  );
+  const half = exponential / 2;
+
+  return Math.round(half + random() * half);
+};
+
+/**
+ * Whether a connect_error was the server rejecting our ID token. Retrying
+ * won't help until the user signs in again.
+ */
+export const isAuthConnectError = (error: unknown): boolean => {
+  const code = (error as { data?: { code?: unknown } } | null)?.data?.code;
+  return typeof code === 'string' && code.startsWith('auth/');
+};
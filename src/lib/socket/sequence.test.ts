@@ -0,0 +1,33 @@
+import {
+  getResumePoint,
+  markSequenceSeen,
+  resetSequences,
+  syncSequence,
+} from './sequence';
+
+describe('sequence', () => {
+  beforeEach(() => {
+    resetSequences();
+  });
+
+  test('markSequenceSeen should drop events that were already seen', () => {
+    // Arrange
+    syncSequence('conv-1', 'epoch-1', 3);
+
+    // Act & Assert - a replayed event that also arrived live is skipped
+    expect(markSequenceSeen('conv-1', 4)).toBe(true);
+    expect(markSequenceSeen('conv-1', 4)).toBe(false);
+    expect(markSequenceSeen('conv-1', 2)).toBe(false);
+    expect(getResumePoint('conv-1')).toEqual({ epoch: 'epoch-1', seq: 4 });
+  });
+
+  test('syncSequence should forget old positions when the epoch changes', () => {
+    syncSequence('conv-1', 'epoch-1', 10);
+    syncSequence('conv-2', 'epoch-1', 5);
+
+    syncSequence('conv-1', 'epoch-2', 1);
+
+    expect(getResumePoint('conv-1')).toEqual({ epoch: 'epoch-2', seq: 1 });
+    expect(getResumePoint('conv-2')).toBeUndefined();
+  });
+});
@@ -0,0 +1,103 @@
+import { RoomEvent } from './events';
+
+// Sequence number of the last room event seen per conversation, so a rejoin
+// after a reconnect can ask the server for just the events we missed.
+// Sequence numbers are only comparable within one server epoch.
+let currentEpoch: string | null = null;
+const lastSeen = new Map<string, number>();
+
+// conversationId -> joins waiting for their acknowledgement, and the live
+// events that arrived meanwhile. The server puts us in the room before it
+// answers, so live events can overtake the replay of the ones we missed.
+const pendingJoins = new Map<string, { joins: number; held: RoomEvent[] }>();
+
+/**
+ * Where to resume a conversation from, if we have seen any of its events
+ */
+export const getResumePoint = (
+  conversationId: string
+): { epoch: string; seq: number } | undefined => {
+  const seq = lastSeen.get(conversationId);
+  return currentEpoch && seq !== undefined
+    ? { epoch: currentEpoch, seq }
+    : undefined;
+};
+
+/**
+ * Record a room event. Returns false if it was already seen, e.g. when a
+ * replayed event was also delivered live.
+ */
+export const markSequenceSeen = (
+  conversationId: string,
+  seq: number
+): boolean => {
+  const last = lastSeen.get(conversationId);
+  if (last !== undefined && seq <= last) return false;
+
+  lastSeen.set(conversationId, seq);
+  return true;
+};
+
+/**
+ * Align with the position the server reported when we joined a conversation
+ */
+export const syncSequence = (
+  conversationId: string,
+  epoch: string,
+  seq: number
+): void => {
+  if (epoch !== currentEpoch) {
+    // The server restarted; nothing we saw before can be resumed from
+    currentEpoch = epoch;
+    lastSeen.clear();
+  }
+
+  lastSeen.set(
+    conversationId,
+    Math.max(lastSeen.get(conversationId) ?? 0, seq)
+  );
+};
+
+/**
+ * Hold live events for a conversation until `releaseRoomEvents`, while its
+ * join is waiting for the acknowledgement
+ */
+export const holdRoomEvents = (conversationId: string): void => {
+  const pending = pendingJoins.get(conversationId) ?? { joins: 0, held: [] };
+  pending.joins += 1;
+  pendingJoins.set(conversationId, pending);
+};
+
+/**
+ * Keep a live event for later if its conversation is being joined. Returns
+ * false if it can be handled now.
+ */
+export const holdRoomEvent = (entry: RoomEvent): boolean => {
+  const pending = pendingJoins.get(entry.payload.conversationId);
+  if (!pending) return false;
+
+  pending.held.push(entry);
+  return true;
+};
+
+/**
+ * End a join started with `holdRoomEvents`. Once no join is waiting, returns
+ * the events held meanwhile, in the order they arrived, to be handled after
+ * the join's replay and `syncSequence`.
+ */
+export const releaseRoomEvents = (conversationId: string): RoomEvent[] => {
+  const pending = pendingJoins.get(conversationId);
+  if (!pending) return [];
+
+  pending.joins -= 1;
+  if (pending.joins > 0) return [];
+
+  pendingJoins.delete(conversationId);
+  return pending.held;
+};
+
+export const resetSequences = (): void => {
+  currentEpoch = null;
+  lastSeen.clear();
+  pendingJoins.clear();
+};
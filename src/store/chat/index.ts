@@ -7,8 +7,13 @@ import {
   ConversationSlice,
 } from './slices/conversationSlice';
 import { createMessageSlice, MessageSlice } from './slices/message';
+import { createThreadSlice, ThreadSlice } from './slices/threadSlice';
 
-interface ChatStore extends ChatStoreState, ConversationSlice, MessageSlice {}
+interface ChatStore
+  extends ChatStoreState,
+    ConversationSlice,
+    MessageSlice,
+    ThreadSlice {}
 
 export const useChatStore = create<ChatStore>()(
   immer((set, get) => {
@@ -23,10 +28,12 @@ export const useChatStore = create<ChatStore>()(
       setLoadingWithTimeout
     );
     const messageSlice = createMessageSlice(set, get, setLoadingWithTimeout);
+    const threadSlice = createThreadSlice(set, get);
 
     return {
       ...conversationSlice,
       ...messageSlice,
+      ...threadSlice,
       error: null,
     };
   })
@@ -182,7 +182,11 @@ export const createConversationSlice = <T extends SliceState>(
           if (updatedConversation) {
             if (
               state.activeConversation.lastMessage?.content !==
-              updatedConversation.lastMessage?.content
+                updatedConversation.lastMessage?.content ||
+              state.activeConversation.hiddenMessageIds?.length !==
+                updatedConversation.hiddenMessageIds?.length ||
+              JSON.stringify(state.activeConversation.threadReads) !==
+                JSON.stringify(updatedConversation.threadReads)
             ) {
               shouldUpdateActive = true;
               updatedActiveConversation = updatedConversation;
@@ -4,11 +4,13 @@ import { SetFn, ChatStoreState, FirebaseError } from '@/store/chat/types';
 export interface MessageState {
   messages: Message[];
   messagesLoading: boolean;
+  replyingTo: Message | null;
 }
 
 export const initialMessageState: MessageState = {
   messages: [],
   messagesLoading: false,
+  replyingTo: null,
 };
 
 export type MessageSliceState = ChatStoreState;
@@ -0,0 +1,135 @@
+import { Message } from '@/types';
+import { MessageSliceState } from './baseSlice';
+import { SetFn } from '@/store/chat/types';
+import {
+  deleteMessageForEveryone as deleteFirestoreMessage,
+  hideMessageForUser,
+} from '@/lib/firebase/chat';
+import {
+  deleteMessageOnServer,
+  relayMessageDeletion,
+  isServerMessageWriteEnabled,
+} from '@/lib/socket';
+import {
+  canDeleteForEveryone,
+  DELETE_WINDOW_MS,
+} from '../../utils/messageUtils';
+
+export interface DeleteMessagesOperations {
+  deleteMessageForMe: (messageId: string, userId: string) => Promise<void>;
+  deleteMessageForEveryone: (
+    messageId: string,
+    requesterId: string
+  ) => Promise<void>;
+}
+
+export const createDeleteMessagesOperations = <T extends MessageSliceState>(
+  set: SetFn<T>,
+  get: () => T
+): DeleteMessagesOperations => {
+  const setHidden = (
+    conversationId: string,
+    update: (hidden: string[]) => string[]
+  ) => {
+    set((state) => {
+      [state.activeConversation, ...state.conversations].forEach(
+        (conversation) => {
+          if (conversation?.id === conversationId) {
+            conversation.hiddenMessageIds = update(
+              conversation.hiddenMessageIds ?? []
+            );
+          }
+        }
+      );
+      return state;
+    });
+  };
+
+  const setDeleted = (
+    messageId: string,
+    { content, editedAt, deletedAt }: Partial<Message>
+  ) => {
+    set((state) => {
+      const message = state.messages.find((m) => m.id === messageId);
+      if (message) {
+        message.content = content ?? '';
+        message.editedAt = editedAt;
+        message.deletedAt = deletedAt;
+      }
+      return state;
+    });
+  };
+
+  return {
+    // Hides the message right away and shows it again if that can't be
+    // stored, rejecting with the error
+    deleteMessageForMe: async (messageId: string, userId: string) => {
+      const message = get().messages.find((m) => m.id === messageId);
+      if (!message) return;
+
+      const { conversationId } = message;
+      setHidden(conversationId, (hidden) =>
+        hidden.includes(messageId) ? hidden : [...hidden, messageId]
+      );
+
+      try {
+        await hideMessageForUser(userId, conversationId, messageId);
+      } catch (error) {
+        setHidden(conversationId, (hidden) =>
+          hidden.filter((id) => id !== messageId)
+        );
+        throw error;
+      }
+    },
+
+    // Replaces the message with a tombstone right away and puts it back if
+    // the deletion can't be stored, rejecting with the error
+    deleteMessageForEveryone: async (
+      messageId: string,
+      requesterId: string
+    ) => {
+      const original = get().messages.find((m) => m.id === messageId);
+      if (
+        !original ||
+        original.sender !== requesterId ||
+        !canDeleteForEveryone(original)
+      ) {
+        return;
+      }
+
+      const { conversationId } = original;
+      setDeleted(messageId, { deletedAt: new Date().toISOString() });
+
+      try {
+        // The server stores the deletion and broadcasts it to the room itself
+        if (isServerMessageWriteEnabled()) {
+          const stored = await deleteMessageOnServer({
+            messageId,
+            conversationId,
+          });
+          setDeleted(messageId, stored);
+          return;
+        }
+
+        const deletedAt = await deleteFirestoreMessage(
+          conversationId,
+          messageId,
+          requesterId,
+          DELETE_WINDOW_MS
+        );
+        setDeleted(messageId, { deletedAt });
+
+        // Already stored, so the other participants still get the deletion
+        // from their Firestore listener if the relay fails
+        relayMessageDeletion({ messageId, conversationId, deletedAt }).catch(
+          (error) => {
+            console.warn('Deletion was not relayed over the socket:', error);
+          }
+        );
+      } catch (error) {
+        setDeleted(messageId, original);
+        throw error;
+      }
+    },
+  };
+};
@@ -0,0 +1,93 @@
+import { MessageSliceState } from './baseSlice';
+import { SetFn } from '@/store/chat/types';
+import { editMessage as editFirestoreMessage } from '@/lib/firebase/chat';
+import {
+  editMessageOnServer,
+  relayMessageEdit,
+  isServerMessageWriteEnabled,
+} from '@/lib/socket';
+import { isLocalOnly } from '../../utils/messageUtils';
+
+export interface EditMessagesOperations {
+  editMessage: (
+    messageId: string,
+    editorId: string,
+    content: string
+  ) => Promise<void>;
+}
+
+export const createEditMessagesOperations = <T extends MessageSliceState>(
+  set: SetFn<T>,
+  get: () => T
+): EditMessagesOperations => {
+  const setContent = (
+    messageId: string,
+    content: string,
+    editedAt: string | undefined
+  ) => {
+    set((state) => {
+      const message = state.messages.find((m) => m.id === messageId);
+      if (message) {
+        message.content = content;
+        message.editedAt = editedAt;
+      }
+      return state;
+    });
+  };
+
+  return {
+    // Shows the edit right away and puts the previous content back if it
+    // can't be stored, rejecting with the error
+    editMessage: async (
+      messageId: string,
+      editorId: string,
+      content: string
+    ) => {
+      const original = get().messages.find((m) => m.id === messageId);
+      if (!original || original.sender !== editorId || isLocalOnly(original)) {
+        return;
+      }
+
+      const trimmed = content.trim();
+      if (!trimmed || trimmed === original.content) return;
+
+      const { conversationId } = original;
+      setContent(messageId, trimmed, new Date().toISOString());
+
+      try {
+        // The server stores the edit and broadcasts it to the room itself
+        if (isServerMessageWriteEnabled()) {
+          const stored = await editMessageOnServer({
+            messageId,
+            conversationId,
+            content: trimmed,
+          });
+          setContent(messageId, stored.content, stored.editedAt);
+          return;
+        }
+
+        const editedAt = await editFirestoreMessage(
+          conversationId,
+          messageId,
+          editorId,
+          trimmed
+        );
+        setContent(messageId, trimmed, editedAt);
+
+        // Already stored, so the other participants still get the edit from
+        // their Firestore listener if the relay fails
+        relayMessageEdit({
+          messageId,
+          conversationId,
+          content: trimmed,
+          editedAt,
+        }).catch((error) => {
+          console.warn('Edit was not relayed over the socket:', error);
+        });
+      } catch (error) {
+        setContent(messageId, original.content, original.editedAt);
+        throw error;
+      }
+    },
+  };
+};
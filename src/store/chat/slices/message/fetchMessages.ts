@@ -1,8 +1,10 @@
 import { MessageSliceState } from './baseSlice';
 import { getConversationMessages } from '@/lib/firebase/chat';
+import { getOutboxMessages } from '@/lib/services/outboxService';
 import { shouldProceed } from '../../utils/throttleUtils';
 import { SetFn } from '@/store/chat/types';
 import { handleMessageError, isCollectionNotFoundError } from './baseSlice';
+import { mergeSnapshotMessages, upsertMessage } from '../../utils/messageUtils';
 
 export interface FetchMessagesOperations {
   fetchMessages: (conversationId: string) => Promise<void>;
@@ -26,7 +28,11 @@ export const createFetchMessagesOperations = <T extends MessageSliceState>(
         const currentState = get();
         const currentMessages = currentState.messages || [];
 
-        const messages = await getConversationMessages(conversationId);
+        const [messages, queued] = await Promise.all([
+          getConversationMessages(conversationId),
+          // Messages queued while offline, possibly before a reload
+          getOutboxMessages(conversationId).catch(() => []),
+        ]);
 
         if (messages.length === 0 && currentMessages.length > 0) {
           console.log(
@@ -41,8 +47,13 @@ export const createFetchMessagesOperations = <T extends MessageSliceState>(
           return;
         }
 
+        // Keep local messages that aren't stored yet, with their retry
+        // state, like the realtime listener does
         set((state) => {
-          state.messages = messages;
+          state.messages = queued.reduce(
+            upsertMessage,
+            mergeSnapshotMessages(state.messages, messages, conversationId)
+          );
           state.messagesLoading = false;
           return state;
         });
@@ -1,8 +1,18 @@
-import { Message } from '@/types';
+import { Message, MessageReply } from '@/types';
+import {
+  MessageDeletedPayload,
+  MessageEditedPayload,
+  ReactionUpdatedPayload,
+  ReceiptEventPayload,
+  ReceiptStatus,
+} from '@/lib/socket';
 import { SetFn } from '@/store/chat/types';
 import { initialMessageState, MessageSliceState } from './baseSlice';
 import { createFetchMessagesOperations } from './fetchMessages';
 import { createSendMessagesOperations } from './sendMessages';
+import { createEditMessagesOperations } from './editMessages';
+import { createDeleteMessagesOperations } from './deleteMessages';
+import { createReactionOperations } from './reactions';
 import { createAiMessagesOperations } from './aiMessages';
 import { createListenerOperations } from './listeners';
 import { createSocketOperations } from './socketEvents';
@@ -10,24 +20,53 @@ import { createSocketOperations } from './socketEvents';
 export interface MessageSlice {
   messages: Message[];
   messagesLoading: boolean;
+  replyingTo: Message | null;
 
   fetchMessages: (conversationId: string) => Promise<void>;
   sendMessage: (
     conversationId: string,
     senderId: string,
+    content: string,
+    replyTo?: MessageReply
+  ) => Promise<void>;
+  setReplyingTo: (message: Message | null) => void;
+  retryMessage: (messageId: string) => Promise<void>;
+  discardMessage: (messageId: string) => void;
+  flushOutbox: (senderId: string) => Promise<void>;
+  editMessage: (
+    messageId: string,
+    editorId: string,
     content: string
   ) => Promise<void>;
+  deleteMessageForMe: (messageId: string, userId: string) => Promise<void>;
+  deleteMessageForEveryone: (
+    messageId: string,
+    requesterId: string
+  ) => Promise<void>;
+  toggleReaction: (
+    messageId: string,
+    userId: string,
+    emoji: string
+  ) => Promise<void>;
   sendAIMessage: (
     conversationId: string,
     message: string,
     aiRecipientId: string
   ) => Promise<void>;
-  markMessageAsRead: (messageId: string, conversationId: string) => void;
-  setTyping: (
+  markMessageAsRead: (
+    messageId: string,
     conversationId: string,
-    userId: string,
-    isTyping: boolean
+    readerId: string
+  ) => void;
+  setTyping: (conversationId: string, isTyping: boolean) => void;
+  receiveSocketMessage: (message: Message) => void;
+  applyMessageReceipt: (
+    status: ReceiptStatus,
+    receipt: ReceiptEventPayload
   ) => void;
+  applyMessageEdit: (edit: MessageEditedPayload) => void;
+  applyMessageDeletion: (deletion: MessageDeletedPayload) => void;
+  applyReactionUpdate: (update: ReactionUpdatedPayload) => void;
   initMessagesListener: (conversationId: string) => () => void;
 }
 
@@ -41,15 +80,21 @@ export const createMessageSlice = <T extends MessageSliceState>(
     get,
     setLoadingWithTimeout
   );
-  const sendOps = createSendMessagesOperations<T>(set);
+  const sendOps = createSendMessagesOperations<T>(set, get);
+  const editOps = createEditMessagesOperations<T>(set, get);
+  const deleteOps = createDeleteMessagesOperations<T>(set, get);
+  const reactionOps = createReactionOperations<T>(set, get);
   const aiOps = createAiMessagesOperations<T>(set, get);
   const listenerOps = createListenerOperations<T>(set);
-  const socketOps = createSocketOperations();
+  const socketOps = createSocketOperations<T>(set, get);
 
   return {
     ...initialMessageState,
     ...fetchOps,
     ...sendOps,
+    ...editOps,
+    ...deleteOps,
+    ...reactionOps,
     ...aiOps,
     ...listenerOps,
     ...socketOps,
@@ -1,6 +1,7 @@
 import { MessageSliceState } from './baseSlice';
 import { onConversationMessagesUpdate } from '@/lib/firebase/chat';
 import { SetFn } from '@/store/chat/types';
+import { mergeSnapshotMessages } from '../../utils/messageUtils';
 
 export interface ListenerOperations {
   initMessagesListener: (conversationId: string) => () => void;
@@ -35,7 +36,13 @@ export const createListenerOperations = <T extends MessageSliceState>(
           }
         }
 
-        state.messages = messages;
+        // Merge rather than replace so messages already delivered over the
+        // socket are neither duplicated nor dropped
+        state.messages = mergeSnapshotMessages(
+          state.messages,
+          messages,
+          conversationId
+        );
         state.messagesLoading = false;
 
         if (
@@ -0,0 +1,82 @@
+import { Message } from '@/types';
+import { MessageSliceState } from './baseSlice';
+import { SetFn } from '@/store/chat/types';
+import { updateReaction as updateFirestoreReaction } from '@/lib/firebase/chat';
+import {
+  applyReaction,
+  updateReactionOnServer,
+  relayReactionUpdate,
+  isServerMessageWriteEnabled,
+} from '@/lib/socket';
+import { isLocalOnly } from '../../utils/messageUtils';
+
+export interface ReactionOperations {
+  toggleReaction: (
+    messageId: string,
+    userId: string,
+    emoji: string
+  ) => Promise<void>;
+}
+
+export const createReactionOperations = <T extends MessageSliceState>(
+  set: SetFn<T>,
+  get: () => T
+): ReactionOperations => {
+  const setReactions = (messageId: string, reactions: Message['reactions']) => {
+    set((state) => {
+      const message = state.messages.find((m) => m.id === messageId);
+      if (message) message.reactions = reactions;
+      return state;
+    });
+  };
+
+  return {
+    // Adds the user's reaction, or removes it if they already reacted with
+    // the emoji. Shown right away and undone if it can't be stored,
+    // rejecting with the error.
+    toggleReaction: async (
+      messageId: string,
+      userId: string,
+      emoji: string
+    ) => {
+      const original = get().messages.find((m) => m.id === messageId);
+      if (!original || original.deletedAt || isLocalOnly(original)) return;
+
+      const { conversationId } = original;
+      const action = original.reactions?.[emoji]?.includes(userId)
+        ? 'remove'
+        : 'add';
+      const update = { messageId, conversationId, emoji, action } as const;
+      setReactions(
+        messageId,
+        applyReaction(original.reactions, { userId, emoji, action })
+      );
+
+      try {
+        // The server stores the reaction and broadcasts it to the room itself
+        if (isServerMessageWriteEnabled()) {
+          const stored = await updateReactionOnServer(update);
+          setReactions(messageId, stored.reactions);
+          return;
+        }
+
+        await updateFirestoreReaction(
+          conversationId,
+          messageId,
+          userId,
+          emoji,
+          action
+        );
+
+        // Already stored, so the other participants still get the reaction
+        // from their Firestore listener if the relay fails
+        relayReactionUpdate(update).catch((error) => {
+          console.warn('Reaction was not relayed over the socket:', error);
+        });
+      } catch (error) {
+        setReactions(messageId, original.reactions);
+        throw error;
+      }
+    },
+  };
+};
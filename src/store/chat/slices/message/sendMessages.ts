@@ -1,38 +1,227 @@
+import { Message, MessageReply } from '@/types';
 import { MessageSliceState } from './baseSlice';
 import { SetFn } from '@/store/chat/types';
-import { sendMessage as sendFirestoreMessage } from '@/lib/firebase/chat';
-import { sendMessage as sendSocketMessage } from '@/lib/socket';
-import { handleMessageError } from './baseSlice';
+import {
+  createMessageId,
+  sendMessage as sendFirestoreMessage,
+} from '@/lib/firebase/chat';
+import {
+  sendMessage as sendSocketMessage,
+  sendMessageToServer,
+  isServerMessageWriteEnabled,
+  isConnected as isSocketConnected,
+} from '@/lib/socket';
+import {
+  addToOutbox,
+  getOutboxMessages,
+  removeFromOutbox,
+} from '@/lib/services/outboxService';
+import { upsertMessage } from '../../utils/messageUtils';
 
 export interface SendMessagesOperations {
   sendMessage: (
     conversationId: string,
     senderId: string,
-    content: string
+    content: string,
+    replyTo?: MessageReply
   ) => Promise<void>;
+  setReplyingTo: (message: Message | null) => void;
+  retryMessage: (messageId: string) => Promise<void>;
+  discardMessage: (messageId: string) => void;
+  flushOutbox: (senderId: string) => Promise<void>;
 }
 
+// Sends made while this is false go to the outbox instead
+const canSendNow = (): boolean =>
+  (typeof navigator === 'undefined' || navigator.onLine) && isSocketConnected();
+
 export const createSendMessagesOperations = <T extends MessageSliceState>(
-  set: SetFn<T>
-): SendMessagesOperations => ({
-  sendMessage: async (
-    conversationId: string,
-    senderId: string,
-    content: string
-  ) => {
+  set: SetFn<T>,
+  get: () => T
+): SendMessagesOperations => {
+  let isFlushing = false;
+  // Set when a flush is asked for while one is running
+  let flushRequested = false;
+
+  const showMessage = (message: Message) => {
+    set((state) => {
+      if (state.activeConversation?.id === message.conversationId) {
+        state.messages = upsertMessage(state.messages, message);
+      }
+      return state;
+    });
+  };
+
+  const updateStatus = (messageId: string, status: Message['status']) => {
+    set((state) => {
+      const message = state.messages.find((m) => m.id === messageId);
+      if (message) {
+        message.status = status;
+      }
+      return state;
+    });
+  };
+
+  const queue = async (message: Message) => {
+    updateStatus(message.id, 'queued');
+    await addToOutbox({ ...message, status: 'queued' });
+  };
+
+  // Write a message that is already shown locally. Resolves to whether the
+  // write succeeded.
+  const deliver = async (local: Message): Promise<boolean> => {
+    // The server stores the message and broadcasts it to the room itself
+    if (isServerMessageWriteEnabled()) {
+      try {
+        showMessage(await sendMessageToServer(local));
+        return true;
+      } catch (error) {
+        console.error(`Server failed to store message ${local.id}:`, error);
+        return false;
+      }
+    }
+
     try {
       const message = await sendFirestoreMessage(
-        conversationId,
-        senderId,
-        content
+        local.conversationId,
+        local.sender,
+        local.content,
+        false,
+        local.id,
+        local.replyTo
       );
 
-      sendSocketMessage(message);
+      showMessage(message);
 
+      // The message is already stored, so a relay failure only delays it for
+      // the other participants until their Firestore listener catches up
+      sendSocketMessage(message).catch((error) => {
+        console.warn('Message was not relayed over the socket:', error);
+      });
+      return true;
+    } catch (error) {
+      console.error(`Failed to send message ${local.id}:`, error);
+      return false;
+    }
+  };
+
+  // Deliver the sender's queued messages in order. Resolves to whether the
+  // outbox was emptied.
+  const deliverQueued = async (senderId: string): Promise<boolean> => {
+    const queued = (await getOutboxMessages()).filter(
+      (m) => m.sender === senderId
+    );
+
+    // One at a time so messages land in the order they were written
+    for (const message of queued) {
+      updateStatus(message.id, 'pending');
+
+      if (!(await deliver(message))) {
+        updateStatus(message.id, 'queued');
+        return false;
+      }
+
+      await removeFromOutbox(message.id);
+    }
+    return true;
+  };
+
+  const flushOutbox = async (senderId: string) => {
+    if (isFlushing) {
+      flushRequested = true;
       return;
+    }
+    isFlushing = true;
+
+    try {
+      // Go again if messages were queued while this flush was running
+      do {
+        flushRequested = false;
+      } while ((await deliverQueued(senderId)) && flushRequested);
     } catch (error) {
-      handleMessageError(set, error, 'Failed to send message');
-      throw error;
+      console.error('Failed to flush the outbox:', error);
+    } finally {
+      isFlushing = false;
+    }
+  };
+
+  // Deliver now, falling back to the outbox if the connection dropped
+  // meanwhile. Other failures are kept on the message so the user can retry
+  // or discard it.
+  const deliverOrQueue = async (pending: Message) => {
+    if (await deliver(pending)) {
+      // The server is reachable again, so anything left in the outbox from
+      // an earlier failed flush can go too
+      flushOutbox(pending.sender);
+      return;
     }
-  },
-});
+
+    if (canSendNow()) {
+      updateStatus(pending.id, 'failed');
+    } else {
+      await queue(pending);
+    }
+  };
+
+  return {
+    sendMessage: async (
+      conversationId: string,
+      senderId: string,
+      content: string,
+      replyTo?: MessageReply
+    ) => {
+      const message: Message = {
+        id: createMessageId(conversationId),
+        conversationId,
+        sender: senderId,
+        content,
+        timestamp: new Date(),
+        status: canSendNow() ? 'pending' : 'queued',
+        ...(replyTo ? { replyTo } : {}),
+      };
+
+      showMessage(message);
+
+      if (message.status === 'queued') {
+        await addToOutbox(message);
+        return;
+      }
+
+      await deliverOrQueue(message);
+    },
+
+    setReplyingTo: (message: Message | null) => {
+      set((state) => {
+        state.replyingTo = message;
+        return state;
+      });
+    },
+
+    retryMessage: async (messageId: string) => {
+      const failed = get().messages.find((m) => m.id === messageId);
+      if (!failed || failed.status !== 'failed') return;
+
+      updateStatus(messageId, 'pending');
+      // Same ID as the first attempt, so a write that actually landed is
+      // overwritten rather than duplicated
+      await deliverOrQueue({ ...failed, status: 'pending' });
+    },
+
+    discardMessage: (messageId: string) => {
+      set((state) => {
+        state.messages = state.messages.filter(
+          (m) =>
+            m.id !== messageId ||
+            (m.status !== 'failed' && m.status !== 'queued')
+        );
+        return state;
+      });
+
+      removeFromOutbox(messageId).catch((error) => {
+        console.warn(`Failed to remove ${messageId} from the outbox:`, error);
+      });
+    },
+
+    flushOutbox,
+  };
+};
@@ -1,23 +1,159 @@
+import { Message } from '@/types';
 import {
   sendTypingNotification,
   markMessageAsRead as markSocketMessageAsRead,
+  ReceiptEventPayload,
+  ReceiptStatus,
+  MessageEditedPayload,
+  MessageDeletedPayload,
+  ReactionUpdatedPayload,
+  applyReaction,
 } from '@/lib/socket';
+import { advanceLastReadTimestamp } from '@/lib/firebase/chat';
+import { SetFn } from '@/store/chat/types';
+import { MessageSliceState } from './baseSlice';
+import {
+  applyReceipt,
+  canDeleteForEveryone,
+  latestContent,
+  upsertMessage,
+} from '../../utils/messageUtils';
 
 export interface SocketOperations {
-  markMessageAsRead: (messageId: string, conversationId: string) => void;
-  setTyping: (
+  markMessageAsRead: (
+    messageId: string,
     conversationId: string,
-    userId: string,
-    isTyping: boolean
+    readerId: string
+  ) => void;
+  setTyping: (conversationId: string, isTyping: boolean) => void;
+  receiveSocketMessage: (message: Message) => void;
+  applyMessageReceipt: (
+    status: ReceiptStatus,
+    receipt: ReceiptEventPayload
   ) => void;
+  applyMessageEdit: (edit: MessageEditedPayload) => void;
+  applyMessageDeletion: (deletion: MessageDeletedPayload) => void;
+  applyReactionUpdate: (update: ReactionUpdatedPayload) => void;
 }
 
-export const createSocketOperations = (): SocketOperations => ({
-  markMessageAsRead: (messageId: string, conversationId: string) => {
+export const createSocketOperations = <T extends MessageSliceState>(
+  set: SetFn<T>,
+  get: () => T
+): SocketOperations => ({
+  // Marks everything up to and including the message read
+  markMessageAsRead: (
+    messageId: string,
+    conversationId: string,
+    readerId: string
+  ) => {
+    const message = get().messages.find((m) => m.id === messageId);
+    if (!message || message.conversationId !== conversationId) return;
+
+    set((state) => {
+      state.messages = applyReceipt(state.messages, 'read', {
+        messageId,
+        userId: readerId,
+        timestamp: new Date().toISOString(),
+      });
+      return state;
+    });
+
     markSocketMessageAsRead(messageId, conversationId);
+    advanceLastReadTimestamp(
+      readerId,
+      conversationId,
+      new Date(message.timestamp)
+    ).catch(() => {
+      // Logged by the service; the next read moves it forward again
+    });
+  },
+
+  setTyping: (conversationId: string, isTyping: boolean) => {
+    sendTypingNotification(conversationId, isTyping);
+  },
+
+  receiveSocketMessage: (message: Message) => {
+    set((state) => {
+      // Only the active conversation's messages are kept in the store
+      if (state.activeConversation?.id !== message.conversationId) {
+        return state;
+      }
+
+      state.messages = upsertMessage(state.messages, message);
+      return state;
+    });
   },
 
-  setTyping: (conversationId: string, userId: string, isTyping: boolean) => {
-    sendTypingNotification(conversationId, userId, isTyping);
+  applyMessageReceipt: (status, { conversationId, ...receipt }) => {
+    set((state) => {
+      if (state.activeConversation?.id !== conversationId) {
+        return state;
+      }
+
+      state.messages = applyReceipt(state.messages, status, receipt);
+      return state;
+    });
+  },
+
+  applyMessageEdit: ({
+    conversationId,
+    messageId,
+    userId,
+    content,
+    editedAt,
+  }) => {
+    set((state) => {
+      if (state.activeConversation?.id !== conversationId) {
+        return state;
+      }
+
+      const message = state.messages.find((m) => m.id === messageId);
+      // Only the sender can edit. The server checks relayed edits too, but
+      // only against messages its own store holds.
+      if (message && message.sender === userId) {
+        Object.assign(
+          message,
+          latestContent(message, { ...message, content, editedAt })
+        );
+      }
+      return state;
+    });
+  },
+
+  applyMessageDeletion: ({ conversationId, messageId, userId, deletedAt }) => {
+    set((state) => {
+      if (state.activeConversation?.id !== conversationId) {
+        return state;
+      }
+
+      const message = state.messages.find((m) => m.id === messageId);
+      // Only the sender can delete for everyone, and only within the window
+      // counted up to when the server relayed the deletion
+      if (
+        message &&
+        message.sender === userId &&
+        canDeleteForEveryone(message, new Date(deletedAt).getTime())
+      ) {
+        Object.assign(
+          message,
+          latestContent(message, { ...message, content: '', deletedAt })
+        );
+      }
+      return state;
+    });
+  },
+
+  applyReactionUpdate: ({ conversationId, messageId, ...update }) => {
+    set((state) => {
+      if (state.activeConversation?.id !== conversationId) {
+        return state;
+      }
+
+      const message = state.messages.find((m) => m.id === messageId);
+      if (message) {
+        message.reactions = applyReaction(message.reactions, update);
+      }
+      return state;
+    });
   },
 });
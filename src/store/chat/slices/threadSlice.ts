@@ -0,0 +1,152 @@
+import { Message } from '@/types';
+import {
+  createThreadMessageId,
+  markThreadRead as markFirestoreThreadRead,
+  onThreadMessagesUpdate,
+  sendThreadReply as sendFirestoreThreadReply,
+} from '@/lib/firebase/chat';
+import { ActiveThread, ChatStoreState, SetFn } from '@/store/chat/types';
+
+const toTime = (timestamp: Message['timestamp']): number =>
+  new Date(timestamp).getTime() || 0;
+
+export interface ThreadSlice {
+  activeThread: ActiveThread | null;
+  threadMessages: Message[];
+  threadLoading: boolean;
+
+  openThread: (conversationId: string, threadId: string) => void;
+  closeThread: () => void;
+  sendThreadReply: (senderId: string, content: string) => Promise<void>;
+  markThreadRead: (userId: string) => void;
+  initThreadListener: (conversationId: string, threadId: string) => () => void;
+}
+
+export const createThreadSlice = <T extends ChatStoreState>(
+  set: SetFn<T>,
+  get: () => T
+): ThreadSlice => ({
+  activeThread: null,
+  threadMessages: [],
+  threadLoading: false,
+
+  openThread: (conversationId: string, threadId: string) => {
+    set((state) => {
+      if (state.activeThread?.threadId !== threadId) {
+        state.threadMessages = [];
+        state.threadLoading = true;
+      }
+      state.activeThread = { conversationId, threadId };
+      return state;
+    });
+  },
+
+  closeThread: () => {
+    set((state) => {
+      state.activeThread = null;
+      state.threadMessages = [];
+      state.threadLoading = false;
+      return state;
+    });
+  },
+
+  // Shows the reply right away and takes it back out if it can't be stored,
+  // rejecting with the error
+  sendThreadReply: async (senderId: string, content: string) => {
+    const thread = get().activeThread;
+    const trimmed = content.trim();
+    if (!thread || !trimmed) return;
+
+    const { conversationId, threadId } = thread;
+    const id = createThreadMessageId(conversationId, threadId);
+    set((state) => {
+      state.threadMessages.push({
+        id,
+        conversationId,
+        threadId,
+        sender: senderId,
+        content: trimmed,
+        timestamp: new Date(),
+        status: 'pending',
+      });
+      return state;
+    });
+
+    try {
+      const reply = await sendFirestoreThreadReply(
+        conversationId,
+        threadId,
+        senderId,
+        trimmed,
+        id
+      );
+      set((state) => {
+        const index = state.threadMessages.findIndex((m) => m.id === id);
+        if (index !== -1) state.threadMessages[index] = reply;
+        return state;
+      });
+    } catch (error) {
+      set((state) => {
+        state.threadMessages = state.threadMessages.filter((m) => m.id !== id);
+        return state;
+      });
+      throw error;
+    }
+  },
+
+  // Marks the open thread read up to its newest reply
+  markThreadRead: (userId: string) => {
+    const { activeThread, activeConversation, threadMessages } = get();
+    const newest = threadMessages[threadMessages.length - 1];
+    if (
+      !activeThread ||
+      !newest ||
+      activeConversation?.id !== activeThread.conversationId
+    ) {
+      return;
+    }
+
+    const { conversationId, threadId } = activeThread;
+    const readAt = activeConversation.threadReads?.[threadId];
+    if (readAt && toTime(readAt) >= toTime(newest.timestamp)) return;
+
+    const readUpTo = new Date(newest.timestamp);
+    set((state) => {
+      [state.activeConversation, ...state.conversations].forEach(
+        (conversation) => {
+          if (conversation?.id === conversationId) {
+            conversation.threadReads = {
+              ...conversation.threadReads,
+              [threadId]: readUpTo.toISOString(),
+            };
+          }
+        }
+      );
+      return state;
+    });
+
+    markFirestoreThreadRead(userId, conversationId, threadId, readUpTo).catch(
+      () => {
+        // Already logged; the thread just shows as unread again later
+      }
+    );
+  },
+
+  initThreadListener: (conversationId: string, threadId: string) =>
+    onThreadMessagesUpdate(conversationId, threadId, (messages) => {
+      set((state) => {
+        if (state.activeThread?.threadId !== threadId) return state;
+
+        // Keep replies still being written, which the snapshot can't have yet
+        const ids = new Set(messages.map((m) => m.id));
+        state.threadMessages = [
+          ...messages,
+          ...state.threadMessages.filter(
+            (m) => m.status === 'pending' && !ids.has(m.id)
+          ),
+        ];
+        state.threadLoading = false;
+        return state;
+      });
+    }),
+});
@@ -6,9 +6,21 @@ export interface ChatStoreState {
   messages: Message[];
   conversationsLoading: boolean;
   messagesLoading: boolean;
+  // The message the user is writing a reply to, if any
+  replyingTo: Message | null;
+  // The thread open in the thread panel and its replies
+  activeThread: ActiveThread | null;
+  threadMessages: Message[];
+  threadLoading: boolean;
   error: string | null;
 }
 
+export interface ActiveThread {
+  conversationId: string;
+  // The ID of the message that started the thread
+  threadId: string;
+}
+
 export type SetFn<T> = (fn: (draft: T) => T | void) => void;
 
 export interface FirebaseError {
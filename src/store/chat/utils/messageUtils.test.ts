@@ -0,0 +1,238 @@
+import { Message } from '@/types';
+import {
+  applyReceipt,
+  getDeliveryStatus,
+  getRecipients,
+  hasUnreadThreadReplies,
+  mergeSnapshotMessages,
+  toReply,
+  upsertMessage,
+} from './messageUtils';
+
+const createMessage = (overrides: Partial<Message> = {}): Message => ({
+  id: 'msg-1',
+  conversationId: 'conv-1',
+  sender: 'test-user-id',
+  content: 'Hello world',
+  timestamp: '2025-01-01T10:00:00.000Z',
+  status: 'sent',
+  ...overrides,
+});
+
+describe('messageUtils', () => {
+  test('upsertMessage should not duplicate a message with the same id', () => {
+    // Arrange
+    const existing = [createMessage()];
+
+    // Act
+    const result = upsertMessage(existing, createMessage());
+
+    // Assert
+    expect(result).toHaveLength(1);
+  });
+
+  test('upsertMessage should keep the most advanced status', () => {
+    const existing = [createMessage({ status: 'read' })];
+
+    const result = upsertMessage(existing, createMessage({ status: 'sent' }));
+
+    expect(result[0].status).toBe('read');
+  });
+
+  test('mergeSnapshotMessages should render a message received via socket and snapshot once', () => {
+    // Arrange - message first arrives over the socket
+    const fromSocket = upsertMessage(
+      [],
+      createMessage({ status: 'delivered' })
+    );
+
+    // Act - the Firestore snapshot then delivers the same message
+    const result = mergeSnapshotMessages(
+      fromSocket,
+      [createMessage()],
+      'conv-1'
+    );
+
+    // Assert
+    expect(result).toHaveLength(1);
+    expect(result[0].status).toBe('delivered');
+  });
+
+  test('mergeSnapshotMessages should keep socket messages newer than the snapshot', () => {
+    const older = createMessage({ id: 'msg-1' });
+    const newer = createMessage({
+      id: 'msg-2',
+      timestamp: '2025-01-01T10:05:00.000Z',
+    });
+
+    const result = mergeSnapshotMessages([older, newer], [older], 'conv-1');
+
+    expect(result.map((m) => m.id)).toEqual(['msg-1', 'msg-2']);
+  });
+
+  test('mergeSnapshotMessages should keep pending messages until they are persisted', () => {
+    const pending = createMessage({
+      id: 'msg-pending',
+      timestamp: '2025-01-01T09:00:00.000Z',
+      status: 'pending',
+    });
+    const persisted = createMessage({ id: 'msg-1' });
+
+    const result = mergeSnapshotMessages([pending], [persisted], 'conv-1');
+
+    expect(result.map((m) => m.id)).toEqual(['msg-pending', 'msg-1']);
+  });
+
+  test('upsertMessage should replace a pending message with the stored copy', () => {
+    const existing = [createMessage({ status: 'pending' })];
+
+    const result = upsertMessage(existing, createMessage({ status: 'sent' }));
+
+    expect(result).toHaveLength(1);
+    expect(result[0].status).toBe('sent');
+  });
+
+  test('getDeliveryStatus should only report read once every recipient has read', () => {
+    const receipts = {
+      alice: {
+        deliveredAt: '2025-01-01T10:00:01.000Z',
+        readAt: '2025-01-01T10:00:02.000Z',
+      },
+      bob: { deliveredAt: '2025-01-01T10:00:01.000Z' },
+    };
+    const message = createMessage({ receipts });
+    const recipients = getRecipients(message, ['test-user-id', 'alice', 'bob']);
+
+    expect(recipients).toEqual(['alice', 'bob']);
+    expect(getDeliveryStatus(message, recipients)).toBe('delivered');
+    expect(getDeliveryStatus(message, ['alice'])).toBe('read');
+    expect(getDeliveryStatus(message, ['alice', 'carol'])).toBe('sent');
+  });
+
+  test('upsertMessage should keep the first receipt time from either copy', () => {
+    const existing = [
+      createMessage({
+        receipts: { alice: { deliveredAt: '2025-01-01T10:00:01.000Z' } },
+      }),
+    ];
+
+    const result = upsertMessage(
+      existing,
+      createMessage({
+        receipts: {
+          alice: {
+            deliveredAt: '2025-01-01T10:00:05.000Z',
+            readAt: '2025-01-01T10:00:06.000Z',
+          },
+        },
+      })
+    );
+
+    expect(result[0].receipts).toEqual({
+      alice: {
+        deliveredAt: '2025-01-01T10:00:01.000Z',
+        readAt: '2025-01-01T10:00:06.000Z',
+      },
+    });
+  });
+
+  test('applyReceipt should mark earlier messages from others read', () => {
+    const messages = [
+      createMessage({ id: 'msg-1', timestamp: '2025-01-01T10:00:00.000Z' }),
+      createMessage({
+        id: 'msg-2',
+        sender: 'alice',
+        timestamp: '2025-01-01T10:01:00.000Z',
+      }),
+      createMessage({ id: 'msg-3', timestamp: '2025-01-01T10:02:00.000Z' }),
+      createMessage({ id: 'msg-4', timestamp: '2025-01-01T10:03:00.000Z' }),
+    ];
+    const readAt = '2025-01-01T10:05:00.000Z';
+
+    const result = applyReceipt(messages, 'read', {
+      messageId: 'msg-3',
+      userId: 'alice',
+      timestamp: readAt,
+    });
+
+    expect(result.map((m) => m.receipts?.alice?.readAt)).toEqual([
+      readAt,
+      undefined,
+      readAt,
+      undefined,
+    ]);
+  });
+
+  test('mergeSnapshotMessages should not let a stale snapshot undo an edit', () => {
+    const current = [
+      createMessage({
+        content: 'Hello, world',
+        editedAt: '2025-01-01T10:01:00.000Z',
+      }),
+    ];
+
+    const result = mergeSnapshotMessages(
+      current,
+      [createMessage({ content: 'Helo world' })],
+      'conv-1'
+    );
+
+    expect(result[0]).toMatchObject({
+      content: 'Hello, world',
+      editedAt: '2025-01-01T10:01:00.000Z',
+    });
+  });
+
+  test('mergeSnapshotMessages should keep a deletion over a later edit', () => {
+    const current = [
+      createMessage({
+        content: '',
+        deletedAt: '2025-01-01T10:01:00.000Z',
+      }),
+    ];
+
+    const result = mergeSnapshotMessages(
+      current,
+      [
+        createMessage({
+          content: 'Hello, world',
+          editedAt: '2025-01-01T10:02:00.000Z',
+        }),
+      ],
+      'conv-1'
+    );
+
+    expect(result[0]).toMatchObject({
+      content: '',
+      deletedAt: '2025-01-01T10:01:00.000Z',
+    });
+  });
+
+  test('toReply should quote only the start of a long message', () => {
+    const reply = toReply(createMessage({ content: 'a'.repeat(500) }));
+
+    expect(reply).toMatchObject({ id: 'msg-1', sender: 'test-user-id' });
+    expect(reply.content).toHaveLength(200);
+    expect(reply.content.endsWith('…')).toBe(true);
+  });
+
+  test('hasUnreadThreadReplies should only count replies from others since the last read', () => {
+    const message = createMessage({
+      thread: {
+        replyCount: 2,
+        lastReplyAt: '2025-01-01T10:05:00.000Z',
+        lastRepliers: ['bob', 'test-user-id'],
+      },
+    });
+
+    expect(hasUnreadThreadReplies(message, 'test-user-id', undefined)).toBe(
+      true
+    );
+    expect(
+      hasUnreadThreadReplies(message, 'test-user-id', {
+        'msg-1': '2025-01-01T10:05:00.000Z',
+      })
+    ).toBe(false);
+    expect(hasUnreadThreadReplies(message, 'bob', undefined)).toBe(false);
+  });
+});
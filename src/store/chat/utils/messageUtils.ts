@@ -0,0 +1,250 @@
+import { Message, MessageReply } from '@/types';
+import {
+  isReadUpTo,
+  MESSAGE_DELETE_WINDOW_MS,
+  recordReceipt,
+  REPLY_SNIPPET_LENGTH,
+  ReceiptEventPayload,
+  ReceiptStatus,
+} from '@/lib/socket/events';
+
+const STATUS_RANK: Record<Message['status'], number> = {
+  failed: -1,
+  queued: 0,
+  pending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+};
+
+// How long after sending a message can still be deleted for everyone
+export const DELETE_WINDOW_MS =
+  Number(process.env.NEXT_PUBLIC_MESSAGE_DELETE_WINDOW_MS) ||
+  MESSAGE_DELETE_WINDOW_MS;
+
+const toTime = (timestamp: Message['timestamp']): number =>
+  new Date(timestamp).getTime() || 0;
+
+/**
+ * Returns whichever status is further along
+ * (failed < queued, pending < sent < delivered < read)
+ */
+export const mostAdvancedStatus = (
+  a: Message['status'],
+  b: Message['status']
+): Message['status'] => (STATUS_RANK[a] >= STATUS_RANK[b] ? a : b);
+
+/**
+ * Combine two sets of receipts, keeping the first delivery and read time
+ * known for each recipient
+ */
+export const mergeReceipts = (
+  a: Message['receipts'],
+  b: Message['receipts']
+): Message['receipts'] => {
+  if (!a || !b) return a ?? b;
+
+  return Object.entries(b).reduce(
+    (merged, [userId, { deliveredAt, readAt }]) => {
+      const delivered = deliveredAt
+        ? recordReceipt(merged, userId, 'delivered', deliveredAt)
+        : merged;
+      return readAt
+        ? recordReceipt(delivered, userId, 'read', readAt)
+        : delivered;
+    },
+    a
+  );
+};
+
+/**
+ * The content of whichever copy was edited last, or the deleted copy, so a
+ * stale copy from a snapshot or the socket can't undo an edit or a deletion
+ */
+export const latestContent = (
+  a: Message,
+  b: Message
+): Pick<Message, 'content' | 'editedAt' | 'deletedAt'> => {
+  const editTime = (m: Message) => (m.editedAt ? toTime(m.editedAt) : 0);
+  const newest =
+    a.deletedAt && !b.deletedAt
+      ? a
+      : b.deletedAt || editTime(b) >= editTime(a)
+      ? b
+      : a;
+  return {
+    content: newest.content,
+    editedAt: newest.editedAt,
+    deletedAt: newest.deletedAt,
+  };
+};
+
+/**
+ * Record a receipt on the messages it covers: the message itself, and for a
+ * read receipt every earlier message from someone else. Unknown messages are
+ * ignored.
+ */
+export const applyReceipt = (
+  messages: Message[],
+  status: ReceiptStatus,
+  { messageId, userId, timestamp }: Omit<ReceiptEventPayload, 'conversationId'>
+): Message[] => {
+  const target = messages.find((m) => m.id === messageId);
+  if (!target) return messages;
+
+  return messages.map((message) => {
+    const covered =
+      message.id === messageId ||
+      (status === 'read' && isReadUpTo(message, target, userId));
+    if (!covered) return message;
+
+    const receipts = recordReceipt(message.receipts, userId, status, timestamp);
+    return receipts === message.receipts ? message : { ...message, receipts };
+  });
+};
+
+/**
+ * Insert a message or merge it into an existing copy with the same ID,
+ * keeping the list ordered by timestamp
+ */
+export const upsertMessage = (
+  messages: Message[],
+  message: Message
+): Message[] => {
+  const index = messages.findIndex((m) => m.id === message.id);
+
+  if (index !== -1) {
+    const existing = messages[index];
+    const merged = {
+      ...existing,
+      ...message,
+      ...latestContent(existing, message),
+      status: mostAdvancedStatus(existing.status, message.status),
+      receipts: mergeReceipts(existing.receipts, message.receipts),
+    };
+    return [...messages.slice(0, index), merged, ...messages.slice(index + 1)];
+  }
+
+  return [...messages, message].sort(
+    (a, b) => toTime(a.timestamp) - toTime(b.timestamp)
+  );
+};
+
+/**
+ * Whether a message only exists locally, waiting on or having failed its write
+ */
+export const isLocalOnly = (message: Message): boolean =>
+  message.status === 'queued' ||
+  message.status === 'pending' ||
+  message.status === 'failed';
+
+/**
+ * Whether the sender can still delete the message for everyone, which is
+ * only allowed for a while after sending
+ */
+export const canDeleteForEveryone = (
+  message: Message,
+  now: number = Date.now()
+): boolean =>
+  !message.deletedAt &&
+  !isLocalOnly(message) &&
+  now - toTime(message.timestamp) <= DELETE_WINDOW_MS;
+
+/**
+ * What a reply to `message` quotes: its sender and the start of its content
+ */
+export const toReply = (message: Message): MessageReply => ({
+  id: message.id,
+  sender: message.sender,
+  content:
+    message.content.length > REPLY_SNIPPET_LENGTH
+      ? `${message.content.slice(0, REPLY_SNIPPET_LENGTH - 1)}…`
+      : message.content,
+});
+
+/**
+ * Whether someone else replied in the thread started from `message` since
+ * the user last read it
+ */
+export const hasUnreadThreadReplies = (
+  message: Message,
+  userId: string,
+  threadReads: Record<string, string> | undefined
+): boolean => {
+  const { thread } = message;
+  if (!thread?.replyCount || thread.lastRepliers[0] === userId) return false;
+
+  const readAt = threadReads?.[message.id];
+  return !readAt || toTime(thread.lastReplyAt) > toTime(readAt);
+};
+
+/**
+ * The users a message was sent to: every participant but the sender and the
+ * AI assistant
+ */
+export const getRecipients = (
+  message: Message,
+  participants: string[]
+): string[] =>
+  participants.filter((id) => id !== message.sender && id !== 'ai-assistant');
+
+/**
+ * Status of a message across all its recipients: read once everyone read it,
+ * delivered once everyone received it, its own status otherwise
+ */
+export const getDeliveryStatus = (
+  message: Message,
+  recipients: string[]
+): Message['status'] => {
+  if (isLocalOnly(message) || recipients.length === 0) return message.status;
+
+  const receipts = recipients.map((id) => message.receipts?.[id]);
+  if (receipts.every((receipt) => receipt?.readAt)) return 'read';
+  if (receipts.every((receipt) => receipt?.deliveredAt)) {
+    return mostAdvancedStatus(message.status, 'delivered');
+  }
+  return message.status;
+};
+
+/**
+ * Merge a Firestore snapshot into the current message list. Messages already
+ * received over the socket keep their most advanced status and receipts, and socket
+ * messages newer than the snapshot are kept until Firestore catches up.
+ * Queued, pending and failed messages are always kept.
+ */
+export const mergeSnapshotMessages = (
+  current: Message[],
+  snapshot: Message[],
+  conversationId: string
+): Message[] => {
+  const currentById = new Map(current.map((m) => [m.id, m]));
+  const snapshotIds = new Set(snapshot.map((m) => m.id));
+  const latestSnapshotTime = snapshot.length
+    ? toTime(snapshot[snapshot.length - 1].timestamp)
+    : 0;
+
+  const merged = snapshot.map((message) => {
+    const existing = currentById.get(message.id);
+    return existing
+      ? {
+          ...message,
+          ...latestContent(existing, message),
+          status: mostAdvancedStatus(existing.status, message.status),
+          receipts: mergeReceipts(existing.receipts, message.receipts),
+        }
+      : message;
+  });
+
+  const notYetPersisted = current.filter(
+    (m) =>
+      m.conversationId === conversationId &&
+      !snapshotIds.has(m.id) &&
+      (isLocalOnly(m) || toTime(m.timestamp) >= latestSnapshotTime)
+  );
+
+  return notYetPersisted.length
+    ? [...merged, ...notYetPersisted].sort(
+        (a, b) => toTime(a.timestamp) - toTime(b.timestamp)
+      )
+    : merged;
+};
@@ -1,38 +1,422 @@
 import { create } from 'zustand';
-import { Socket } from 'socket.io-client';
-import { initializeSocket, disconnectSocket, SocketEvents } from '@/lib/socket';
-import { User } from '@/types';
+import {
+  initializeSocket,
+  disconnectSocket,
+  setupSocketEventHandlers,
+  replayRoomEvents,
+  joinConversation as joinSocketConversation,
+  leaveConversation as leaveSocketConversation,
+  markMessageAsDelivered,
+  getOnlineUsers,
+  getResumePoint,
+  syncSequence,
+  resetSequences,
+  holdRoomEvents,
+  releaseRoomEvents,
+  SocketEventDispatch,
+  getReconnectDelay,
+  isAuthConnectError,
+  SocketEvents,
+  ChatSocket,
+} from '@/lib/socket';
+import { Message, User } from '@/types';
+import { useChatStore } from './chat';
+import { useUIStore } from './uiStore';
+
+export type PresenceStatus = 'online' | 'offline';
+
+export type ConnectionState =
+  | { status: 'idle' }
+  | { status: 'connecting' }
+  | { status: 'connected' }
+  | { status: 'reconnecting'; attempt: number; nextRetryAt: number }
+  | { status: 'offline' }
+  | { status: 'failed'; error: string };
 
 interface SocketState {
-  socket: Socket | null;
+  socket: ChatSocket | null;
+  connection: ConnectionState;
+  // Shorthand for connection.status === 'connected'
   isConnected: boolean;
+  // conversationId -> IDs of users currently typing in it
+  typingUsers: Record<string, string[]>;
+  // userId -> last presence status received over the socket
+  presence: Record<string, PresenceStatus>;
 
   connect: (user: User) => void;
   disconnect: () => void;
+  reconnectNow: () => void;
+  // Every join must be paired with a leave; the room is kept while any
+  // caller still wants it
+  joinConversation: (conversationId: string) => Promise<void>;
+  leaveConversation: (conversationId: string) => void;
+  loadOnlineUsers: () => Promise<void>;
+  setUserTyping: (
+    conversationId: string,
+    userId: string,
+    isTyping: boolean
+  ) => void;
+  setUserPresence: (userId: string, status: PresenceStatus) => void;
 }
 
-export const useSocketStore = create<SocketState>((set) => ({
-  socket: null,
-  isConnected: false,
+// Reconnect bookkeeping lives outside the state since nothing renders it
+let reconnectAttempt = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let removeNetworkListeners: (() => void) | null = null;
+// One rate limit notice per cooldown rather than one per rejected event
+let rateLimitNoticeUntil = 0;
+// Delivery receipts are sent as the connected user, and only for rooms we
+// are in since the server rejects the rest
+let currentUserId: string | null = null;
+const joinedConversations = new Set<string>();
+// conversationId -> how many callers want its room. Rooms are joined while
+// wanted and rejoined after every reconnect.
+const roomSubscribers = new Map<string, number>();
+const acknowledgedDeliveries = new Set<string>();
+let stopAcknowledgingDeliveries: (() => void) | null = null;
 
-  connect: (user) => {
-    if (!user) return;
+const clearReconnectTimer = () => {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+};
 
-    const socketInstance = initializeSocket(user);
+const isBrowserOffline = () =>
+  typeof navigator !== 'undefined' && !navigator.onLine;
 
-    socketInstance.on(SocketEvents.CONNECT, () => {
-      set({ isConnected: true });
-    });
+// Tell the senders of other users' messages that we received them, once per
+// message
+const acknowledgeDelivery = (messages: Message[]) => {
+  const userId = currentUserId;
+  if (!userId) return;
+
+  messages.forEach((message) => {
+    if (
+      message.sender === userId ||
+      message.isAI ||
+      !joinedConversations.has(message.conversationId) ||
+      message.receipts?.[userId]?.deliveredAt ||
+      acknowledgedDeliveries.has(message.id)
+    ) {
+      return;
+    }
+
+    acknowledgedDeliveries.add(message.id);
+    markMessageAsDelivered(message.id, message.conversationId);
+  });
+};
+
+export const useSocketStore = create<SocketState>((set, get) => {
+  // Routes socket events, live or replayed, into the stores
+  const dispatch: SocketEventDispatch = {
+    onMessage: (message) =>
+      useChatStore.getState().receiveSocketMessage(message),
+    onTyping: (conversationId, userId, isTyping) =>
+      get().setUserTyping(conversationId, userId, isTyping),
+    onPresence: (userId, status) => get().setUserPresence(userId, status),
+    onReceipt: (status, receipt) =>
+      useChatStore.getState().applyMessageReceipt(status, receipt),
+    onMessageEdited: (edit) => useChatStore.getState().applyMessageEdit(edit),
+    onMessageDeleted: (deletion) =>
+      useChatStore.getState().applyMessageDeletion(deletion),
+    onReactionUpdated: (update) =>
+      useChatStore.getState().applyReactionUpdate(update),
+    onRateLimited: (event, retryAfterMs) => {
+      const now = Date.now();
+      if (now < rateLimitNoticeUntil) return;
+      rateLimitNoticeUntil = now + Math.max(retryAfterMs, 1000);
+
+      const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+      useUIStore.getState().addNotification({
+        type: 'system',
+        content:
+          event === SocketEvents.NEW_MESSAGE
+            ? `You're sending messages too quickly. Try again in ${seconds}s.`
+            : `You're doing that too quickly. Try again in ${seconds}s.`,
+      });
+    },
+    // A deliberate shutdown, not a failure, so skip the backoff. Pending
+    // messages time out and are retried on the new connection.
+    onServerDraining: () => {
+      const { socket } = get();
+      if (!socket) return;
+
+      reconnectAttempt = 0;
+      socket.disconnect();
+      get().reconnectNow();
+    },
+  };
+
+  // Join a room, catching up on the events missed since we were last in it.
+  // Live events that arrive before the acknowledgement are applied after the
+  // catch-up, so they can't make the missed ones look already seen.
+  const joinRoom = async (conversationId: string) => {
+    holdRoomEvents(conversationId);
+    try {
+      await catchUpOnJoin(conversationId);
+    } finally {
+      replayRoomEvents(releaseRoomEvents(conversationId), dispatch);
+    }
+  };
+
+  const catchUpOnJoin = async (conversationId: string) => {
+    const response = await joinSocketConversation(
+      conversationId,
+      getResumePoint(conversationId)
+    );
+    if (!response?.ok || !response.epoch) return;
+    // Left again while the join was on its way
+    if (!roomSubscribers.has(conversationId)) return;
+
+    joinedConversations.add(conversationId);
+
+    if (response.refetch) {
+      // Too much happened while we were away to replay it event by event
+      console.log(`Refetching messages for ${conversationId} after rejoin`);
+      const chatStore = useChatStore.getState();
+      if (chatStore.activeConversation?.id === conversationId) {
+        chatStore.fetchMessages(conversationId);
+      }
+    } else if (response.missed?.length) {
+      console.log(
+        `Catching up on ${response.missed.length} events in ${conversationId}`
+      );
+      replayRoomEvents(response.missed, dispatch);
+    }
 
-    socketInstance.on(SocketEvents.DISCONNECT, () => {
-      set({ isConnected: false });
+    syncSequence(conversationId, response.epoch, response.seq ?? 0);
+    // Messages that arrived before we were in the room
+    acknowledgeDelivery(useChatStore.getState().messages);
+  };
+
+  const setConnection = (connection: ConnectionState) => {
+    set({ connection, isConnected: connection.status === 'connected' });
+  };
+
+  // Wait out the backoff for the next attempt, or park in `offline` until the
+  // browser's online event if there's no network to retry on
+  const scheduleReconnect = () => {
+    const { socket } = get();
+    clearReconnectTimer();
+    if (!socket) return;
+
+    if (isBrowserOffline()) {
+      setConnection({ status: 'offline' });
+      return;
+    }
+
+    reconnectAttempt += 1;
+    const delay = getReconnectDelay(reconnectAttempt);
+
+    setConnection({
+      status: 'reconnecting',
+      attempt: reconnectAttempt,
+      nextRetryAt: Date.now() + delay,
     });
 
-    set({ socket: socketInstance });
-  },
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      socket.connect();
+    }, delay);
+  };
+
+  const listenForNetworkChanges = () => {
+    if (typeof window === 'undefined' || removeNetworkListeners) return;
+
+    const handleOnline = () => {
+      if (get().connection.status === 'offline') get().reconnectNow();
+    };
+    const handleOffline = () => {
+      if (get().connection.status === 'connected') return;
+      clearReconnectTimer();
+      setConnection({ status: 'offline' });
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    removeNetworkListeners = () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      removeNetworkListeners = null;
+    };
+  };
+
+  return {
+    socket: null,
+    connection: { status: 'idle' },
+    isConnected: false,
+    typingUsers: {},
+    presence: {},
+
+    connect: (user) => {
+      if (!user) return;
+
+      const socketInstance = initializeSocket(user);
+
+      // Handlers are already bound if this socket is the one we hold
+      if (get().socket === socketInstance) return;
+
+      socketInstance.on(SocketEvents.CONNECT, () => {
+        clearReconnectTimer();
+        reconnectAttempt = 0;
+        setConnection({ status: 'connected' });
+        // Presence broadcasts only cover changes from now on
+        get().loadOnlineUsers();
+        // The server forgot our rooms with the previous connection
+        roomSubscribers.forEach((_, conversationId) =>
+          joinRoom(conversationId)
+        );
+        // Send whatever was written while we were offline
+        useChatStore.getState().flushOutbox(user.id);
+      });
+
+      socketInstance.on(SocketEvents.DISCONNECT, (reason) => {
+        // Typing state is stale once we stop receiving stop events
+        set({ typingUsers: {} });
+        // The server forgets our rooms when the connection closes
+        joinedConversations.clear();
+
+        // We asked for this disconnect, so don't fight it
+        if (reason === 'io client disconnect') {
+          clearReconnectTimer();
+          setConnection({ status: 'idle' });
+          return;
+        }
+        scheduleReconnect();
+      });
+
+      socketInstance.on(SocketEvents.CONNECT_ERROR, (error) => {
+        if (isAuthConnectError(error)) {
+          clearReconnectTimer();
+          setConnection({ status: 'failed', error: error.message });
+          return;
+        }
+        scheduleReconnect();
+      });
+
+      setupSocketEventHandlers(socketInstance, dispatch);
+
+      // Messages arrive over the socket, in snapshots and from fetches; check
+      // whichever way the list changed
+      currentUserId = user.id;
+      stopAcknowledgingDeliveries?.();
+      stopAcknowledgingDeliveries = useChatStore.subscribe(
+        (state, previous) => {
+          if (state.messages !== previous.messages) {
+            acknowledgeDelivery(state.messages);
+          }
+        }
+      );
+
+      listenForNetworkChanges();
+      set({ socket: socketInstance });
+      setConnection(
+        socketInstance.connected
+          ? { status: 'connected' }
+          : { status: 'connecting' }
+      );
+    },
+
+    disconnect: () => {
+      clearReconnectTimer();
+      reconnectAttempt = 0;
+      removeNetworkListeners?.();
+      stopAcknowledgingDeliveries?.();
+      stopAcknowledgingDeliveries = null;
+      currentUserId = null;
+      joinedConversations.clear();
+      acknowledgedDeliveries.clear();
+      resetSequences();
+      disconnectSocket();
+      set({
+        socket: null,
+        connection: { status: 'idle' },
+        isConnected: false,
+        typingUsers: {},
+        presence: {},
+      });
+    },
+
+    reconnectNow: () => {
+      const { socket } = get();
+      if (!socket || socket.connected) return;
+
+      clearReconnectTimer();
+      setConnection({ status: 'connecting' });
+      socket.connect();
+    },
+
+    joinConversation: async (conversationId) => {
+      const subscribers = roomSubscribers.get(conversationId) ?? 0;
+      roomSubscribers.set(conversationId, subscribers + 1);
+
+      // Already joined by another caller, or joined once we connect
+      if (subscribers > 0 || !get().socket?.connected) return;
+      await joinRoom(conversationId);
+    },
+
+    leaveConversation: (conversationId) => {
+      const subscribers = (roomSubscribers.get(conversationId) ?? 0) - 1;
+      if (subscribers > 0) {
+        roomSubscribers.set(conversationId, subscribers);
+        return;
+      }
+
+      roomSubscribers.delete(conversationId);
+      joinedConversations.delete(conversationId);
+      // The server already dropped us from the room if we're disconnected
+      if (get().socket?.connected) leaveSocketConversation(conversationId);
+    },
+
+    loadOnlineUsers: async () => {
+      const userIds = await getOnlineUsers();
+      if (!userIds) return;
+
+      // Anyone left out of the snapshot went offline while we weren't looking
+      set((state) => ({
+        presence: {
+          ...Object.fromEntries(
+            Object.keys(state.presence).map((userId) => [userId, 'offline'])
+          ),
+          ...Object.fromEntries(userIds.map((userId) => [userId, 'online'])),
+        },
+      }));
+    },
+
+    setUserTyping: (conversationId, userId, isTyping) => {
+      set((state) => {
+        const current = state.typingUsers[conversationId] || [];
+        const isListed = current.includes(userId);
+
+        if (isTyping === isListed) return state;
+
+        const next = isTyping
+          ? [...current, userId]
+          : current.filter((id) => id !== userId);
+
+        return {
+          typingUsers: { ...state.typingUsers, [conversationId]: next },
+        };
+      });
+    },
+
+    setUserPresence: (userId, status) => {
+      set((state) => {
+        if (state.presence[userId] === status) return state;
+
+        const presence = { ...state.presence, [userId]: status };
+        if (status === 'online') return { presence };
 
-  disconnect: () => {
-    disconnectSocket();
-    set({ socket: null, isConnected: false });
-  },
-}));
+        // A user who went offline can't still be typing
+        const typingUsers = Object.fromEntries(
+          Object.entries(state.typingUsers).map(([conversationId, ids]) => [
+            conversationId,
+            ids.filter((id) => id !== userId),
+          ])
+        );
+        return { presence, typingUsers };
+      });
+    },
+  };
+});
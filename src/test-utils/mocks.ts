@@ -43,9 +43,18 @@ export const mockRouterValues = {
 
 export const mockSocketValues = {
   socket: null,
+  connection: { status: 'idle' as const },
   isConnected: false,
+  typingUsers: {},
+  presence: {},
   connect: jest.fn(),
   disconnect: jest.fn(),
+  reconnectNow: jest.fn(),
+  joinConversation: jest.fn(),
+  leaveConversation: jest.fn(),
+  loadOnlineUsers: jest.fn(),
+  setUserTyping: jest.fn(),
+  setUserPresence: jest.fn(),
 };
 
 export const mockUseSocketReturn = {
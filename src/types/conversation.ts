@@ -12,4 +12,9 @@ export interface Conversation {
   createdAt: Date | string;
   updatedAt: Date | string;
   isAIChat?: boolean;
+  // Messages the current user deleted for themselves only
+  hiddenMessageIds?: string[];
+  // When the current user last read each thread, keyed by the ID of the
+  // message that started it, as ISO strings
+  threadReads?: Record<string, string>;
 }
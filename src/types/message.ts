@@ -1,12 +1,59 @@
 /**
  * Message related types
  */
+
+// When one recipient received and read a message, as ISO strings
+export interface MessageReceipt {
+  deliveredAt?: string;
+  readAt?: string;
+}
+
+// A version of a message's content that was later edited
+export interface MessageVersion {
+  content: string;
+  // When this version was written: the send time or the previous edit
+  timestamp: string;
+}
+
+// The message a reply quotes, captured when the reply is sent
+export interface MessageReply {
+  id: string;
+  sender: string;
+  // The start of the original content
+  content: string;
+}
+
+// Summary of the thread started from a message, kept on the root message
+export interface MessageThread {
+  replyCount: number;
+  // ISO string
+  lastReplyAt: string;
+  // The most recent repliers, newest first
+  lastRepliers: string[];
+}
+
 export interface Message {
   id: string;
   conversationId: string;
   sender: string;
   content: string;
   timestamp: Date | string;
-  status: 'sent' | 'delivered' | 'read';
+  // queued, pending and failed only exist locally, before the sender's
+  // write lands
+  status: 'queued' | 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
   isAI?: boolean;
+  // Per recipient, keyed by user ID. Delivered and read are only meaningful
+  // per recipient, so `status` is not advanced past 'sent' for them.
+  receipts?: Record<string, MessageReceipt>;
+  // When the sender last edited the content, as an ISO string
+  editedAt?: string;
+  // Set when the sender deleted the message for everyone, leaving a tombstone
+  // with empty content
+  deletedAt?: string;
+  // IDs of the users who reacted with each emoji, keyed by the emoji
+  reactions?: Record<string, string[]>;
+  replyTo?: MessageReply;
+  thread?: MessageThread;
+  // Set on thread replies: the ID of the message that started the thread
+  threadId?: string;
 }